@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Card, Button } from '../Layout';
+import { ClipboardList, Copy, Download, Printer, Trash2, Users } from 'lucide-react';
+import { Assignment, decodeAssignment, encodeAssignment, MAX_TARGET_ACCURACY, MIN_TARGET_ACCURACY } from './speak/assignment';
+import { DIFFICULTY_LEVELS, DifficultyLevel } from './speak/hints';
+
+export type ReportFormat = 'csv' | 'json' | 'html';
+
+interface AssignmentPanelProps {
+    memorizationId: string;
+    title: string;
+    assignment: Assignment | null;
+    onChange: (assignment: Assignment | null) => void;
+    onExport: (format: ReportFormat) => void;
+    onOpenClassReports: () => void;
+}
+
+type Mode = 'closed' | 'teacher' | 'learner';
+
+export const ReportExportButtons: React.FC<{ onExport: (format: ReportFormat) => void }> = ({ onExport }) => (
+  <div className="grid grid-cols-3 gap-2">
+    <button onClick={() => onExport('csv')} className="py-2 rounded-xl border border-gray-200 text-[10px] font-black uppercase tracking-widest text-content-muted flex items-center justify-center gap-1"><Download size={12} /> CSV</button>
+    <button onClick={() => onExport('json')} className="py-2 rounded-xl border border-gray-200 text-[10px] font-black uppercase tracking-widest text-content-muted flex items-center justify-center gap-1"><Download size={12} /> JSON</button>
+    <button onClick={() => onExport('html')} className="py-2 rounded-xl border border-gray-200 text-[10px] font-black uppercase tracking-widest text-content-muted flex items-center justify-center gap-1"><Printer size={12} /> Print</button>
+  </div>
+);
+
+export const AssignmentPanel: React.FC<AssignmentPanelProps> = ({ memorizationId, title, assignment, onChange, onExport, onOpenClassReports }) => {
+  const [mode, setMode] = useState<Mode>('closed');
+  const [requiredLevel, setRequiredLevel] = useState<DifficultyLevel>(3);
+  const [targetAccuracy, setTargetAccuracy] = useState(85);
+  const [dueDate, setDueDate] = useState("");
+  const [code, setCode] = useState("");
+  const [learner, setLearner] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const teacherCode = encodeAssignment({
+    memorizationId, title, requiredLevel, targetAccuracy,
+    dueAt: dueDate ? new Date(`${dueDate}T23:59:59`).getTime() : undefined,
+    assignedAt: Date.now()
+  });
+
+  const copyCode = async () => {
+    await navigator.clipboard?.writeText(teacherCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const acceptCode = () => {
+    const decoded = decodeAssignment(code, memorizationId);
+    if (!decoded.ok) { setError(decoded.error); return; }
+    // Attempts count from when the learner accepts, not when the teacher made the code.
+    onChange({ ...decoded.assignment, learner: learner.trim() || undefined, assignedAt: Date.now() });
+    setCode(""); setError(null); setMode('closed');
+  };
+
+  if (assignment) {
+    return (
+      <Card className="p-4 space-y-3 border-indigo-100 shadow-sm">
+        <div className="flex items-start gap-3">
+          <ClipboardList size={18} className="text-indigo-600 shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <span className="block text-sm font-bold text-indigo-800">Assignment{assignment.learner ? ` • ${assignment.learner}` : ''}</span>
+            <span className="block text-xs text-indigo-600">
+              Level {assignment.requiredLevel} or above • {assignment.targetAccuracy}% on every paragraph
+              {assignment.dueAt ? ` • due ${new Date(assignment.dueAt).toLocaleDateString()}` : ''}
+            </span>
+          </div>
+          <button onClick={() => onChange(null)} className="p-1 text-content-muted" title="Remove assignment" aria-label="Remove assignment"><Trash2 size={14} /></button>
+        </div>
+        <ReportExportButtons onExport={onExport} />
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4 space-y-3 shadow-sm">
+      <div className="flex items-center gap-2">
+        <ClipboardList size={16} className="text-content-muted" />
+        <span className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] flex-1">Class Assignment</span>
+        <button onClick={() => setMode(mode === 'learner' ? 'closed' : 'learner')} className={`px-3 py-1 rounded-full text-[10px] font-bold ${mode === 'learner' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-content-muted'}`}>Enter Code</button>
+        <button onClick={() => setMode(mode === 'teacher' ? 'closed' : 'teacher')} className={`px-3 py-1 rounded-full text-[10px] font-bold ${mode === 'teacher' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-content-muted'}`}>Assign</button>
+      </div>
+
+      {mode === 'learner' && (
+        <div className="space-y-2">
+          <input value={learner} onChange={(e) => setLearner(e.target.value)} placeholder="Your name" className="w-full p-2 text-sm border border-gray-200 rounded-md outline-none focus:border-primary-500" />
+          <textarea value={code} onChange={(e) => { setCode(e.target.value); setError(null); }} placeholder="Paste the code from your teacher" className="w-full h-16 p-2 text-xs font-mono border border-gray-200 rounded-md outline-none focus:border-primary-500" />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <Button onClick={acceptCode} disabled={!code.trim()} className="w-full py-2 text-xs font-bold rounded-xl">ACCEPT ASSIGNMENT</Button>
+        </div>
+      )}
+
+      {mode === 'teacher' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-5 gap-1">
+            {DIFFICULTY_LEVELS.map(d => (
+              <button key={d.level} onClick={() => setRequiredLevel(d.level)} className={`py-2 rounded-lg border-2 text-xs font-bold ${requiredLevel === d.level ? 'border-primary-600 bg-primary-50 text-primary-600' : 'border-gray-100 text-gray-400'}`}>{d.level}</button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-xs text-content-muted">
+            <label className="flex items-center gap-2">
+              Target
+              <input type="number" min={MIN_TARGET_ACCURACY} max={MAX_TARGET_ACCURACY} value={targetAccuracy} onChange={(e) => setTargetAccuracy(Math.min(MAX_TARGET_ACCURACY, Math.max(MIN_TARGET_ACCURACY, Number(e.target.value) || MIN_TARGET_ACCURACY)))} className="w-16 p-1.5 text-sm border border-gray-200 rounded-md outline-none focus:border-primary-500" />%
+            </label>
+            <label className="flex items-center gap-2">
+              Due
+              <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="p-1.5 text-sm border border-gray-200 rounded-md outline-none focus:border-primary-500" />
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-2 text-[10px] bg-gray-50 border border-gray-100 rounded-md truncate">{teacherCode}</code>
+            <button onClick={copyCode} className="p-2 text-primary-600 rounded-md hover:bg-primary-50 flex items-center gap-1 text-[10px] font-black uppercase"><Copy size={14} /> {copied ? 'Copied' : 'Copy'}</button>
+          </div>
+          <p className="text-[10px] text-content-muted">Share this code with your learners. They send back the JSON report from their results screen.</p>
+          <button onClick={onOpenClassReports} className="w-full py-2 rounded-xl bg-primary-50 text-primary-600 text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2"><Users size={14} /> Review Class Reports</button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default AssignmentPanel;
@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { Card } from '../Layout';
+import { AlertCircle, CheckCircle2, ChevronLeft, Download, FileText, X } from 'lucide-react';
+import { classReportToCsv, downloadFile, parseReport, RecitalReport } from './speak/report';
+import { slugify } from './speak/corpusImport';
+
+interface ClassReportProps {
+    title: string;
+    onBack: () => void;
+}
+
+interface LoadedReport {
+  /** Assigned on load; learners can hand in the same file twice, so reports have no natural key. */
+  id: number;
+  report: RecitalReport;
+}
+
+/** Lets a teacher load the JSON reports learners hand in and compare them side by side. */
+export const ClassReport: React.FC<ClassReportProps> = ({ title, onBack }) => {
+  const [loadedReports, setLoadedReports] = useState<LoadedReport[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const nextIdRef = useRef(0);
+  const reports = loadedReports.map(entry => entry.report);
+
+  const handleFiles = async (files: FileList) => {
+    const loaded: LoadedReport[] = [];
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      const report = parseReport(await file.text());
+      if (report) loaded.push({ id: nextIdRef.current++, report });
+      else failed.push(file.name);
+    }
+    setLoadedReports(prev => [...prev, ...loaded]);
+    setRejected(failed);
+  };
+
+  // One column per paragraph text, named after the first report that has it.
+  const paragraphColumns = new Map<string, string>();
+  reports.forEach(r => r.paragraphs.forEach(p => { if (!paragraphColumns.has(p.segmentKey)) paragraphColumns.set(p.segmentKey, p.title); }));
+
+  return (
+    <div className="flex flex-col h-full bg-canvas">
+      <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center z-10">
+        <button onClick={onBack} aria-label="Back" className="p-1.5 -ml-1 text-content"><ChevronLeft size={22} /></button>
+        <h2 className="ml-3 text-lg font-bold text-content flex-1">Class Reports</h2>
+        {reports.length > 0 && (
+          <button onClick={() => downloadFile(`${slugify(title) || 'recital'}-class.csv`, classReportToCsv(reports), 'text/csv')} className="p-2 text-primary-600 hover:bg-primary-50 rounded-xl flex items-center gap-1 text-[10px] font-black uppercase tracking-widest">
+            <Download size={16} /> CSV
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-20">
+        <Card className="p-4 shadow-sm">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <div className="w-10 h-10 bg-primary-50 rounded-xl flex items-center justify-center shrink-0"><FileText size={20} className="text-primary-600" /></div>
+            <div className="flex-1 min-w-0">
+              <span className="block text-sm font-bold text-content">Add learner reports</span>
+              <span className="text-[10px] text-content-muted uppercase font-bold">JSON files exported from the results screen</span>
+            </div>
+            <input type="file" accept=".json" multiple className="hidden" onChange={(e) => e.target.files && handleFiles(e.target.files)} />
+          </label>
+        </Card>
+
+        {rejected.length > 0 && (
+          <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-700">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />Not a recital report: {rejected.join(', ')}
+          </div>
+        )}
+
+        {loadedReports.map(({ id, report }) => (
+          <Card key={id} className="p-4 space-y-2 shadow-sm">
+            <div className="flex items-center gap-2">
+              {report.targetMet ? <CheckCircle2 size={16} className="text-green-600" /> : <AlertCircle size={16} className="text-amber-500" />}
+              <span className="flex-1 text-sm font-bold text-content truncate">{report.learner || 'Unnamed learner'}</span>
+              <span className="text-[10px] font-bold text-content-muted uppercase">{report.sessions.length} sessions</span>
+              <button onClick={() => setLoadedReports(prev => prev.filter(entry => entry.id !== id))} aria-label={`Remove report from ${report.learner || "unnamed learner"}`} className="p-1 text-content-muted"><X size={14} /></button>
+            </div>
+            {report.memorizationId !== reports[0].memorizationId && (
+              <p className="text-[10px] text-amber-600">This report is for "{report.title}".</p>
+            )}
+            <div className="flex flex-wrap gap-1.5">
+              {Array.from(paragraphColumns).map(([key, t]) => {
+                const p = report.paragraphs.find(para => para.segmentKey === key);
+                return (
+                  <span key={key} title={t} className={`px-2 py-0.5 rounded text-[10px] font-bold ${!p ? 'bg-gray-100 text-gray-400' : p.targetMet === false ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-700'}`}>
+                    {p ? `${p.latestAccuracy}%` : '–'}
+                  </span>
+                );
+              })}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ClassReport;
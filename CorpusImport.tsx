@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Button } from '../Layout';
+import { AlertCircle, Check, ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import { CorpusFormat, detectFormat, ImportedMemorization, importCorpus } from './speak/corpusImport';
+import { segmentText, suggestSegmentationMode } from './speak/segmentation';
+
+interface CorpusImportProps {
+    onImport: (items: ImportedMemorization[]) => void;
+    onBack: () => void;
+}
+
+const FORMAT_LABELS: Record<CorpusFormat, string> = {
+  'js-array': 'JS Array',
+  json: 'JSON',
+  markdown: 'Markdown',
+  csv: 'CSV',
+  text: 'Plain Text'
+};
+
+export const CorpusImport: React.FC<CorpusImportProps> = ({ onImport, onBack }) => {
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<CorpusFormat | null>(null);
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const detected = useMemo(() => detectFormat(content, fileName), [content, fileName]);
+  const result = useMemo(() => content.trim() ? importCorpus(content, fileName, format ?? detected) : null, [content, fileName, format, detected]);
+  const chosen = selected ?? new Set(result?.items.map(i => i.id) ?? []);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setFormat(null);
+    setSelected(null);
+    setContent(await file.text());
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(chosen);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-canvas">
+      <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center z-10">
+        <button onClick={onBack} aria-label="Back" className="p-1.5 -ml-1 text-content"><ChevronLeft size={22} /></button>
+        <h2 className="ml-3 text-lg font-bold text-content flex-1">Import Texts</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-40">
+        <Card className="p-4 space-y-3 shadow-sm">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <div className="w-10 h-10 bg-primary-50 rounded-xl flex items-center justify-center shrink-0"><FileText size={20} className="text-primary-600" /></div>
+            <div className="flex-1 min-w-0">
+              <span className="block text-sm font-bold text-content truncate">{fileName || 'Choose a file'}</span>
+              <span className="text-[10px] text-content-muted uppercase font-bold">JSON, Markdown, CSV or text</span>
+            </div>
+            <input type="file" accept=".json,.js,.md,.markdown,.csv,.txt" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+          </label>
+          <textarea value={content} onChange={(e) => { setContent(e.target.value); setSelected(null); }} placeholder="...or paste text here" className="w-full h-28 p-3 text-sm border border-gray-200 rounded-xl outline-none focus:border-primary-500 font-mono" />
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FORMAT_LABELS) as CorpusFormat[]).map(f => (
+              <button key={f} onClick={() => { setFormat(f); setSelected(null); }} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${(format ?? detected) === f ? 'border-primary-600 bg-primary-50 text-primary-600' : 'border-gray-200 text-content-muted'}`}>
+                {FORMAT_LABELS[f]}{f === detected && !format ? ' (detected)' : ''}
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {result?.warnings.map((w, i) => (
+          <div key={i} className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-700"><AlertCircle size={14} className="shrink-0 mt-0.5" />{w}</div>
+        ))}
+
+        {result?.items.map(item => {
+          const isOpen = expandedId === item.id;
+          const segments = isOpen ? segmentText(item.text, { mode: suggestSegmentationMode(item.text) }) : [];
+          return (
+            <div key={item.id} className="bg-card rounded-xl shadow-sm border border-gray-100">
+              <div className="p-4 flex items-center gap-3">
+                <button onClick={() => toggle(item.id)} className={`w-5 h-5 rounded border flex items-center justify-center shrink-0 transition-colors ${chosen.has(item.id) ? 'bg-primary-600 border-primary-600' : 'border-gray-300'}`}>
+                  {chosen.has(item.id) && <Check size={14} className="text-white" />}
+                </button>
+                <button onClick={() => setExpandedId(isOpen ? null : item.id)} className="flex-1 min-w-0 text-left">
+                  <span className="block font-bold text-content text-xs uppercase tracking-tight truncate">{item.title}</span>
+                  <span className="text-sm text-content-muted line-clamp-1 italic">{item.text.split('\n')[0]}</span>
+                </button>
+                <ChevronRight size={16} className={`text-gray-300 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+              </div>
+              {isOpen && (
+                <div className="px-4 pb-4 space-y-2">
+                  {segments.map((seg, i) => (
+                    <div key={i} className="p-3 bg-canvas rounded-lg">
+                      <span className="block text-[10px] font-black text-content-muted uppercase tracking-widest mb-1">{seg.title}</span>
+                      <p className="text-xs text-content whitespace-pre-line">{seg.text}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-card border-t border-gray-100 p-6 shrink-0 z-20 shadow-2xl">
+        <Button onClick={() => result && onImport(result.items.filter(i => chosen.has(i.id)))} disabled={!result || chosen.size === 0} className="w-full max-w-md mx-auto py-4 text-lg font-bold shadow-xl rounded-2xl flex items-center justify-center gap-2">
+          IMPORT {chosen.size > 0 ? chosen.size : ''} {chosen.size === 1 ? 'ITEM' : 'ITEMS'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CorpusImport;
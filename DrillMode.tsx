@@ -0,0 +1,150 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, Button } from '../Layout';
+import { Check, CheckCircle2, ChevronLeft, Mic, Square, Target, X } from 'lucide-react';
+import { CLEAR_AFTER, DrillItem, isCleared, isDrillAnswerCorrect } from './speak/drill';
+import { WordMatchFn } from './speak/matching';
+import { createLiveRecognizer, isLiveRecognitionSupported, LiveRecognizer } from './speak/liveRecognition';
+
+interface DrillModeProps {
+    items: DrillItem[];
+    matchWords: WordMatchFn;
+    /** BCP 47 tag for spoken answers. */
+    speechLocale: string;
+    onAnswer: (key: string, correct: boolean) => void;
+    onBack: () => void;
+}
+
+const ROUND_SIZE = 10;
+
+const blankFor = (answer: string) => answer.split(/\s+/).map(w => w.replace(/[\p{L}\p{N}]\p{M}*/gu, '_')).join(' ');
+
+export const DrillMode: React.FC<DrillModeProps> = ({ items, matchWords, speechLocale, onAnswer, onBack }) => {
+  // The round is fixed when it starts so answering doesn't reshuffle what comes next.
+  const [round, setRound] = useState(() => items.filter(item => !isCleared(item)).slice(0, ROUND_SIZE).map(item => item.key));
+  const [position, setPosition] = useState(0);
+  const [response, setResponse] = useState("");
+  const [verdict, setVerdict] = useState<boolean | null>(null);
+  const [roundCorrect, setRoundCorrect] = useState(0);
+  const [listening, setListening] = useState(false);
+  const recognizerRef = useRef<LiveRecognizer | null>(null);
+  const speechSupported = useMemo(() => isLiveRecognitionSupported(), []);
+
+  // onAnswer updates the item straight away, so once there is a verdict its streak already counts it.
+  const current = items.find(item => item.key === round[position]);
+  const finished = position >= round.length;
+
+  const check = (answer: string) => {
+    if (!current || verdict !== null) return;
+    const correct = isDrillAnswerCorrect(current, answer, matchWords);
+    setVerdict(correct);
+    if (correct) setRoundCorrect(n => n + 1);
+    onAnswer(current.key, correct);
+  };
+
+  const next = () => {
+    setPosition(p => p + 1);
+    setResponse("");
+    setVerdict(null);
+  };
+
+  const toggleListening = async () => {
+    if (listening) {
+      const recognizer = recognizerRef.current;
+      recognizerRef.current = null;
+      setListening(false);
+      const heard = recognizer ? await recognizer.stop() : response;
+      setResponse(heard);
+      check(heard);
+      return;
+    }
+    setResponse("");
+    recognizerRef.current = createLiveRecognizer({ lang: speechLocale, onTranscript: setResponse, onError: (e) => console.error("Drill recognition error:", e) });
+    recognizerRef.current.start();
+    setListening(true);
+  };
+
+  const startNewRound = () => {
+    setRound(items.filter(item => !isCleared(item)).slice(0, ROUND_SIZE).map(item => item.key));
+    setPosition(0);
+    setRoundCorrect(0);
+    setResponse("");
+    setVerdict(null);
+  };
+
+  const remaining = items.filter(item => !isCleared(item)).length;
+
+  return (
+    <div className="flex flex-col h-full bg-canvas">
+      <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center z-10">
+        <button onClick={() => { recognizerRef.current?.abort(); onBack(); }} aria-label="Back" className="p-1.5 -ml-1 text-content"><ChevronLeft size={22} /></button>
+        <h2 className="ml-3 text-lg font-bold text-content flex-1">Word Drill</h2>
+        {!finished && round.length > 0 && <span className="text-[10px] font-bold text-content-muted uppercase">{position + 1} of {round.length}</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col items-center justify-center gap-4">
+        {round.length === 0 && (
+          <p className="text-sm text-content-muted text-center py-10">Nothing left to drill. Missed words from your recitals will appear here.</p>
+        )}
+
+        {finished && round.length > 0 && (
+          <Card className="w-full max-w-md p-8 text-center space-y-4 shadow-sm">
+            <Target size={36} className="mx-auto text-primary-600" />
+            <h3 className="text-xl font-black text-content">{roundCorrect} of {round.length} recalled</h3>
+            <p className="text-sm text-content-muted">{remaining === 0 ? "Every word is cleared." : `${remaining} still on your list. A word clears after ${CLEAR_AFTER} correct recalls in a row.`}</p>
+            {remaining > 0 && <Button onClick={startNewRound} className="w-full py-3 font-bold rounded-xl">NEXT ROUND</Button>}
+          </Card>
+        )}
+
+        {current && !finished && (
+          <>
+            <Card className="w-full max-w-2xl p-8 text-center shadow-md">
+              <p className="text-xl leading-relaxed text-content">
+                {current.before && <span className="text-content-muted">…{current.before} </span>}
+                <span className={`font-bold px-1 rounded ${verdict === null ? 'bg-primary-50 text-primary-600 tracking-widest' : verdict ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}>
+                  {verdict === null ? blankFor(current.answer) : current.answer}
+                </span>
+                {current.after && <span className="text-content-muted"> {current.after}…</span>}
+              </p>
+              <div className="mt-4 flex justify-center gap-1" title={`${current.streak} of ${CLEAR_AFTER} correct in a row`}>
+                {Array.from({ length: CLEAR_AFTER }, (_, i) => (
+                  <div key={i} className={`w-2 h-2 rounded-full ${i < current.streak ? 'bg-green-500' : 'bg-gray-200'}`} />
+                ))}
+              </div>
+            </Card>
+
+            {verdict === null ? (
+              <div className="w-full max-w-2xl flex items-center gap-2">
+                <input
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && response.trim() && check(response)}
+                  placeholder={speechSupported ? "Type the missing words, or say the whole phrase" : "Type the missing words"}
+                  autoFocus
+                  spellCheck={false}
+                  autoComplete="off"
+                  className="flex-1 p-3 text-base border-2 border-gray-100 rounded-xl outline-none focus:border-primary-500"
+                />
+                {speechSupported && (
+                  <button onClick={toggleListening} aria-label={listening ? "Stop and check" : "Say the phrase"} aria-pressed={listening} className={`w-12 h-12 rounded-full text-white flex items-center justify-center ${listening ? 'bg-amber-500' : 'bg-primary-600'}`}>
+                    {listening ? <Square size={18} fill="white" /> : <Mic size={20} />}
+                  </button>
+                )}
+                <Button onClick={() => check(response)} disabled={!response.trim() || listening} className="px-5 py-3 font-bold rounded-xl"><Check size={18} strokeWidth={3} /></Button>
+              </div>
+            ) : (
+              <div className="w-full max-w-2xl flex items-center gap-3">
+                <span className={`flex-1 flex items-center gap-2 text-sm font-bold ${verdict ? 'text-green-600' : 'text-red-600'}`}>
+                  {verdict ? <CheckCircle2 size={18} /> : <X size={18} />}
+                  {verdict ? (isCleared(current) ? "Cleared from your list" : "Correct") : `You said "${response}"`}
+                </span>
+                <Button onClick={next} autoFocus className="px-6 py-3 font-bold rounded-xl">NEXT</Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DrillMode;
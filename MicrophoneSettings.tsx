@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card } from '../Layout';
+import { AlertCircle, Mic, Square } from 'lucide-react';
+import { classifyMicError, createLevelMeter, LevelMeter, listInputDevices, MIC_ERROR_MESSAGES, MicErrorKind, MicPermission, openMicrophone, queryMicPermission } from './speak/microphone';
+
+/** Speech rarely goes above this RMS, so it fills the meter. */
+const FULL_SCALE = 0.3;
+
+export const InputLevelMeter: React.FC<{ level: number; className?: string }> = ({ level, className = "" }) => {
+  const bars = 12;
+  const lit = Math.round(Math.min(1, Math.sqrt(level / FULL_SCALE)) * bars);
+  return (
+    <div className={`flex items-end gap-0.5 h-4 ${className}`} aria-hidden="true">
+      {Array.from({ length: bars }, (_, i) => (
+        <div key={i} className={`w-1 rounded-sm ${i < lit ? (i >= bars - 2 ? 'bg-amber-500' : 'bg-green-500') : 'bg-gray-200'}`} style={{ height: `${30 + (i / bars) * 70}%` }} />
+      ))}
+    </div>
+  );
+};
+
+interface MicrophoneSettingsProps {
+    deviceId: string | null;
+    onDeviceChange: (deviceId: string | null) => void;
+}
+
+/** Input picker with a test meter, so the user can check they're heard before starting. */
+export const MicrophoneSettings: React.FC<MicrophoneSettingsProps> = ({ deviceId, onDeviceChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [permission, setPermission] = useState<MicPermission>('unknown');
+  const [testing, setTesting] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<MicErrorKind | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const meterRef = useRef<LevelMeter | null>(null);
+  // Bumped by every stop, so a test whose microphone opens after it was stopped or replaced knows it's stale.
+  const testRequestRef = useRef(0);
+
+  const refreshDevices = () => listInputDevices().then(setDevices).catch(() => setDevices([]));
+
+  const stopTest = () => {
+    testRequestRef.current++;
+    meterRef.current?.stop();
+    meterRef.current = null;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    setTesting(false);
+  };
+
+  const startTest = async (id: string | null) => {
+    stopTest();
+    setError(null);
+    const request = testRequestRef.current;
+    try {
+      const stream = await openMicrophone(id);
+      if (request !== testRequestRef.current) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      streamRef.current = stream;
+      meterRef.current = createLevelMeter(stream, setLevel);
+      setTesting(true);
+      setPermission('granted');
+      // Labels only appear once access has been granted.
+      refreshDevices();
+    } catch (err) {
+      if (request !== testRequestRef.current) return;
+      const kind = classifyMicError(err);
+      setError(kind);
+      if (kind === 'denied') setPermission('denied');
+    }
+  };
+
+  useEffect(() => {
+    queryMicPermission().then(setPermission);
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+      stopTest();
+    };
+  }, []);
+
+  const selectDevice = (id: string) => {
+    const next = id || null;
+    onDeviceChange(next);
+    if (testing) startTest(next);
+  };
+
+  // A saved device that's been unplugged is shown as the default rather than a blank choice.
+  const selected = devices.some(d => d.deviceId === deviceId) ? deviceId ?? "" : "";
+
+  return (
+    <Card className="p-4 space-y-3 shadow-sm">
+      <div className="flex items-center gap-2">
+        <Mic size={16} className="text-content-muted" />
+        <span className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] flex-1">Microphone</span>
+        {testing && <InputLevelMeter level={level} />}
+        <button onClick={() => testing ? stopTest() : startTest(deviceId)} className={`px-3 py-1 rounded-full text-[10px] font-bold flex items-center gap-1 ${testing ? 'bg-primary-600 text-white' : 'bg-gray-100 text-content-muted'}`}>
+          {testing ? <><Square size={10} fill="white" /> Stop</> : 'Test'}
+        </button>
+      </div>
+      {devices.length > 1 && (
+        <select value={selected} onChange={(e) => selectDevice(e.target.value)} className="w-full p-2 text-sm border border-gray-200 rounded-md bg-white outline-none focus:border-primary-500">
+          <option value="">System default</option>
+          {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>)}
+        </select>
+      )}
+      {permission === 'denied' && !error && (
+        <p className="flex items-start gap-2 text-xs text-amber-700"><AlertCircle size={14} className="shrink-0 mt-0.5" />Microphone access is blocked for this site. Allow it in your browser settings to recite aloud.</p>
+      )}
+      {error && (
+        <p className="flex items-start gap-2 text-xs text-red-600"><AlertCircle size={14} className="shrink-0 mt-0.5" />{MIC_ERROR_MESSAGES[error].message}</p>
+      )}
+    </Card>
+  );
+};
+
+export default MicrophoneSettings;
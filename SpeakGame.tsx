@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useReducer } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Memorization, Token } from '../../types';
 import { tokenizeText } from '../../utils';
@@ -9,43 +9,48 @@ import {
   Edit2, Play, Pause, ChevronLeft,
   ChevronRight, Star, Lightbulb, CheckCircle2,
   TrendingUp, RotateCcw, Zap, Activity, X, Trash2, Save, Timer, RefreshCw, Brain,
-  ArrowRightCircle, ArrowLeft, Home
+  ArrowRightCircle, ArrowLeft, Home, CloudOff, Keyboard, ClipboardList, Target, MicOff, Volume2, ListOrdered, Upload
 } from 'lucide-react';
 import { useAppStore } from '../../store';
-import { GoogleGenAI } from '@google/genai';
+import { ChunkResult, InputMode } from './speak/types';
+import { applyHint, DIFFICULTY_LEVELS, levelDefinition } from './speak/hints';
+import { POEM_GROUPINGS, weakestLines } from './speak/poetry';
+import { DEFAULT_WORDS_PER_MINUTE, measuredWordsPerMinute, SEGMENTATION_MODES, SegmentationOptions, segmentKey, segmentText } from './speak/segmentation';
+import { alignProgress, WordStatus } from './speak/alignment';
+import { createTranscriptionProvider, loadTranscriptionConfig, TranscriptionResult, WordTiming } from './speak/transcription';
+import { keepRecording, pruneRecordings, recordingKey } from './speak/recordings';
+import { createAudioContext } from './speak/audioContext';
+import { analyzeRecording, estimateWordTimings, RecordingAnalysis } from './speak/audioAnalysis';
+import { checkRecording, checkTranscript, FAILURE_MESSAGES, RecitalFailure, TYPED_FAILURE_MESSAGES } from './speak/validation';
+import { createQueueRunner, discardPending, enqueueTranscription, listPending, PendingTranscription } from './speak/transcriptionQueue';
+import { clearSession, loadSession, SavedSession, saveSession, sessionProgress } from './speak/session';
+import { buildReviewItems, ScoreOptions, scoreReview, toMatchPredicate } from './speak/scoring';
+import { GRADING_MODES, GradingMode, loadGradingMode, saveGradingMode } from './speak/grading';
+import { classifyWords } from './speak/wordClasses';
+import { shortcutFor, shortcutLabel, SHORTCUTS } from './speak/shortcuts';
+import { createLanguageMatcher, LANGUAGES, languageProfile, LanguageSettings, loadLanguageSettings, saveLanguageSettings } from './speak/language';
+import { initialSessionState, isSessionInProgress, sessionReducer } from './speak/engine';
+import { SeekRequest, WaveformPlayer } from './WaveformPlayer';
+import { createLiveRecognizer, isLiveRecognitionSupported, LiveRecognizer } from './speak/liveRecognition';
+import { loadAttempts, mostMissedWords, RecitalAttempt, saveAttempt } from './speak/history';
+import { SpeakHistory } from './SpeakHistory';
+import { AssignmentPanel, ReportExportButtons, ReportFormat } from './AssignmentPanel';
+import { ClassReport } from './ClassReport';
+import { DrillMode } from './DrillMode';
+import { CorpusImport } from './CorpusImport';
+import { ImportedMemorization, saveToImportedLibrary } from './speak/corpusImport';
+import { StructureDrill, StructureResult } from './StructureDrill';
+import { loadStructureAttempts, saveStructureAttempt, StructureAttempt } from './speak/structure';
+import { InputLevelMeter, MicrophoneSettings } from './MicrophoneSettings';
+import { cancelPrompt, isSpeechSynthesisSupported, loadPromptSettings, nextPrompt, previousLine, PROMPT_PENALTY, PROMPT_TIMINGS, PromptSettings, savePromptSettings, SILENCE_OPTIONS, speakPrompt } from './speak/prompting';
+import { classifyMicError, createLevelMeter, LevelMeter, loadMicDevice, MIC_ERROR_MESSAGES, MicErrorKind, openMicrophone, saveMicDevice } from './speak/microphone';
+import { applyDrillAnswer, buildDrillItems, DrillItem, loadDrillList, mergeDrillItems, saveDrillList } from './speak/drill';
+import { Assignment, clearAssignment, loadAssignment, saveAssignment } from './speak/assignment';
+import { buildReport, downloadFile, printHtml, reportToCsv, reportToHtml, reportToJson } from './speak/report';
+import { slugify } from './speak/corpusImport';
+import { dueSegmentIndices, formatDueIn, loadSchedules, recordSegmentReview, SegmentSchedule } from './speak/scheduler';
 
-type GameStep = 'setup' | 'practice' | 'processing' | 'correction' | 'results';
-type DifficultyLevel = 1 | 2; 
-
-interface TextSegment {
-  title: string;
-  text: string;
-}
-
-interface ChunkResult {
-  index: number;
-  expected: string;
-  spoken: string;
-  accuracy: number;
-  missedWords: string[];
-  closeMatch?: boolean;
-  duration: number;
-  level: number;
-}
-
-interface LevelSummary {
-    accuracy: number;
-    time: number;
-    completed: boolean;
-}
-
-const normalize = (s: string) => s.toLowerCase().replace(/[^\w]/g, '');
-const isMatch = (expected: string, spoken: string): boolean => {
-  const e = normalize(expected);
-  const s = normalize(spoken);
-  if (!e || !s) return false;
-  return e === s;
-};
+type RecognitionMode = 'batch' | 'live';
 
 interface GameProps {
     data: Memorization;
@@ -54,43 +59,105 @@ interface GameProps {
     onGuideClose: () => void;
 }
 
+/** Input RMS above this counts as the learner speaking, for the silence-triggered prompt. */
+const SPEAKING_LEVEL = 0.02;
+
 export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, onGuideClose }) => {
   const { notepageMode } = useAppStore();
   const navigate = useNavigate();
+  const [transcriptionConfig] = useState(loadTranscriptionConfig);
+  const transcriber = useMemo(() => createTranscriptionProvider(transcriptionConfig), [transcriptionConfig]);
 
   // --- Main State ---
-  const [step, setStep] = useState<GameStep>('setup');
-  const [level, setLevel] = useState<DifficultyLevel>(1);
+  const [session, dispatch] = useReducer(sessionReducer, initialSessionState);
+  const { step, level, autoLevel, levelChange, levelSummaries, chunks, chunkSegments, currentChunkIdx, reviewItems, sessionResults, sessionId, awaitingPending } = session;
+  const [recognitionMode, setRecognitionMode] = useState<RecognitionMode>('batch');
+  const [inputMode, setInputMode] = useState<InputMode>('speech');
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(() => loadLanguageSettings(data.id, data.text));
+  const language = languageProfile(languageSettings.language);
+  const matchWords = useMemo(() => createLanguageMatcher(languageSettings), [languageSettings]);
+  const isMatch = useMemo(() => toMatchPredicate(matchWords), [matchWords]);
+  const liveSupported = useMemo(() => isLiveRecognitionSupported(), []);
+  const promptingSupported = useMemo(() => isSpeechSynthesisSupported(), []);
   
   // --- Selection State ---
-  const [segments, setSegments] = useState<TextSegment[]>([]);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions>({ mode: 'auto', wordsPerSegment: 60 });
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set([0])); 
-
-  // --- Session Tracking ---
-  const [levelSummaries, setLevelSummaries] = useState<Record<number, LevelSummary>>({
-      1: { accuracy: 0, time: 0, completed: false },
-      2: { accuracy: 0, time: 0, completed: false }
-  });
+  const [schedules, setSchedules] = useState<Record<string, SegmentSchedule>>({});
 
   // --- Practice State ---
-  const [chunks, setChunks] = useState<string[]>([]);
-  const [currentChunkIdx, setCurrentChunkIdx] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  /** Read after a prompt finishes, when the closure's isPaused is stale. */
+  const isPausedRef = useRef(false);
+  isPausedRef.current = isPaused;
   const [recordingSeconds, setRecordingSeconds] = useState(0);
   
   // --- Audio / Recorder State ---
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const levelMeterRef = useRef<LevelMeter | null>(null);
+  const [inputLevel, setInputLevel] = useState(0);
+  const [micDeviceId, setMicDeviceId] = useState<string | null>(() => loadMicDevice());
+  const [micError, setMicError] = useState<MicErrorKind | null>(null);
+
+  // --- Prompting ---
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(() => loadPromptSettings());
+  const [promptCount, setPromptCount] = useState(0);
+  const [activePrompt, setActivePrompt] = useState<string | null>(null);
+  const lastVoiceAtRef = useRef(0);
+  /** Set for as long as a prompt is being spoken, which the silence timer doesn't count. */
+  const promptingRef = useRef(false);
+  const promptRef = useRef<() => void>(() => {});
+  // Speaking time excluding pauses, measured to the millisecond rather than by the one-second timer.
+  const activeMsRef = useRef(0);
+  const activeSinceRef = useRef<number | null>(null);
+  const liveRecognizerRef = useRef<LiveRecognizer | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState("");
+  const [typedText, setTypedText] = useState("");
 
   // --- Verification State ---
-  const [reviewItems, setReviewItems] = useState<{ original: string, spoken: string, editing: boolean }[]>([]);
+  const [currentRecording, setCurrentRecording] = useState<Blob | null>(null);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const [sessionRecordings, setSessionRecordings] = useState<Record<string, Blob>>({});
+  const [saveRecordings, setSaveRecordings] = useState(false);
+  const [failure, setFailure] = useState<RecitalFailure | null>(null);
+
+  // --- Offline Queue ---
+  const [pending, setPending] = useState<PendingTranscription[]>([]);
+  const [resuming, setResuming] = useState(false);
+  const [queuedNotice, setQueuedNotice] = useState(false);
+  const queueRunnerRef = useRef<ReturnType<typeof createQueueRunner> | null>(null);
+  const queuedHandlerRef = useRef<(item: PendingTranscription, result: TranscriptionResult) => void>(() => {});
+
+  // --- Saved Session ---
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(() => loadSession(data.id));
+  const abandonedSessions = useRef(new Set<string>());
+
+  // --- Assignment ---
+  const [assignment, setAssignment] = useState<Assignment | null>(() => loadAssignment(data.id));
+
+  // --- Structure Drill ---
+  const [structureAttempts, setStructureAttempts] = useState<StructureAttempt[]>([]);
+
+  // --- Grading ---
+  const [gradingMode, setGradingMode] = useState<GradingMode>(() => loadGradingMode(data.id));
+
+  // --- Drill ---
+  const [drillItems, setDrillItems] = useState<DrillItem[]>(() => loadDrillList(data.id));
+
+  // --- Corpus Import ---
+  const [importedCount, setImportedCount] = useState<number | null>(null);
 
   // --- Results Tracking ---
-  const [sessionResults, setSessionResults] = useState<ChunkResult[]>([]);
+  const [history, setHistory] = useState<RecitalAttempt[]>([]);
+  const wordsPerMinute = useMemo(() => measuredWordsPerMinute(history.filter(a => a.inputMode !== 'typing')) ?? DEFAULT_WORDS_PER_MINUTE, [history]);
+  const segments = useMemo(() => segmentText(data.text, { ...segmentation, wordsPerMinute }), [data.text, segmentation, wordsPerMinute]);
 
   // --- UI State ---
+  const [announcement, setAnnouncement] = useState("");
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
   const [loadingMessageIdx, setLoadingMessageIdx] = useState(0);
   const loadingMessages = [
     "Processing audio frequencies...",
@@ -99,49 +166,122 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
   ];
 
   useEffect(() => {
-    const naturalBlocks = data.text.split(/\n+/).filter(p => p.trim().length > 0);
-    const finalSegments: TextSegment[] = [];
-
-    naturalBlocks.forEach((block, bIdx) => {
-      const words = block.split(/\s+/).filter(w => w.length > 0);
-      if (words.length <= 150) {
-        finalSegments.push({
-          title: `Paragraph ${bIdx + 1} (${words.length} words • ~90s)`,
-          text: block
-        });
-      } else {
-        const sentences = block.match(/[^.!?]+[.!?]+|\s*[^.!?]+/g) || [block];
-        let currentText = "";
-        let currentWordCount = 0;
-        let partChar = 'A';
-
-        sentences.forEach((sentence) => {
-          const sWords = sentence.split(/\s+/).filter(w => w.length > 0).length;
-          if (currentWordCount + sWords > 150 && currentWordCount > 0) {
-            finalSegments.push({
-              title: `Paragraph ${bIdx + 1} (Part ${partChar}) (${currentWordCount} words • ~90s)`,
-              text: currentText.trim()
-            });
-            currentText = sentence;
-            currentWordCount = sWords;
-            partChar = String.fromCharCode(partChar.charCodeAt(0) + 1);
-          } else {
-            currentText += (currentText ? " " : "") + sentence;
-            currentWordCount += sWords;
-          }
-        });
-        if (currentText) {
-          finalSegments.push({
-            title: `Paragraph ${bIdx + 1} (Part ${partChar}) (${currentWordCount} words • ~90s)`,
-            text: currentText.trim()
-          });
-        }
-      }
+    const storedSchedules = loadSchedules(data.id);
+    const due = dueSegmentIndices(storedSchedules, segments);
+    setSchedules(storedSchedules);
+    setSelectedIndices(new Set(due.length > 0 ? due : segments.map((_, i) => i)));
+  }, [data.id, data.text, segmentation]);
+
+  useEffect(() => {
+    setSavedSession(loadSession(data.id));
+    setLanguageSettings(loadLanguageSettings(data.id, data.text));
+    setAssignment(loadAssignment(data.id));
+    setDrillItems(loadDrillList(data.id));
+    setGradingMode(loadGradingMode(data.id));
+  }, [data.id]);
+
+  const updateAssignment = (next: Assignment | null) => {
+    setAssignment(next);
+    if (next) {
+      saveAssignment(next);
+      if (level < next.requiredLevel) dispatch({ type: 'setLevel', level: next.requiredLevel });
+    }
+    else clearAssignment(data.id);
+  };
+
+  const exportReport = (format: ReportFormat) => {
+    const report = buildReport({ memorizationId: data.id, title: data.title, attempts: history, segments, assignment });
+    const baseName = `${slugify(data.title) || 'recital'}${report.learner ? `-${slugify(report.learner)}` : ''}-report`;
+    if (format === 'csv') downloadFile(`${baseName}.csv`, reportToCsv(report), 'text/csv');
+    else if (format === 'json') downloadFile(`${baseName}.json`, reportToJson(report), 'application/json');
+    else printHtml(reportToHtml(report));
+  };
+
+  const updateGradingMode = (mode: GradingMode) => {
+    setGradingMode(mode);
+    saveGradingMode(data.id, mode);
+  };
+
+  const scoreOptionsFor = (text: string, extra: Pick<ScoreOptions, 'segment' | 'prompts'>): ScoreOptions => ({
+    ...extra,
+    grading: gradingMode,
+    wordClasses: classifyWords(tokenizeText(text).filter(t => t.isWord).map(t => t.text), text, language.sentenceEnd, language.code === 'en'),
+    matchWords
+  });
+
+  const recordStructureResult = (result: StructureResult) => {
+    saveStructureAttempt({ ...result, memorizationId: data.id, recordedAt: Date.now() })
+      .then(attempt => setStructureAttempts(prev => [...prev, attempt]))
+      .catch(err => console.error("Structure save error:", err));
+  };
+
+  // With fewer than two paragraphs selected there is nothing to order, so drill the whole text.
+  const structureSegments = selectedIndices.size >= 2 ? Array.from(selectedIndices).sort((a, b) => a - b) : segments.map((_, i) => i);
+
+  const startDrill = (missedWords: string[]) => {
+    const texts = [...sessionResults, ...history].map(r => r.expected);
+    const next = mergeDrillItems(drillItems, buildDrillItems(missedWords, texts));
+    setDrillItems(next);
+    saveDrillList(data.id, next);
+    dispatch({ type: 'showView', view: 'drill' });
+  };
+
+  const importTexts = (items: ImportedMemorization[]) => {
+    saveToImportedLibrary(items);
+    setImportedCount(items.length);
+    setAnnouncement(`${items.length} ${items.length === 1 ? 'text' : 'texts'} saved to your imported texts.`);
+    dispatch({ type: 'closeView' });
+  };
+
+  const answerDrill = (key: string, correct: boolean) => {
+    setDrillItems(prev => {
+      const next = prev.map(item => item.key === key ? applyDrillAnswer(item, correct) : item);
+      saveDrillList(data.id, next);
+      return next;
     });
+  };
 
-    setSegments(finalSegments);
-    setSelectedIndices(new Set(finalSegments.map((_, i) => i)));
-  }, [data.text]);
+  const updateLanguageSettings = (changes: Partial<LanguageSettings>) => {
+    const next = { ...languageSettings, ...changes };
+    setLanguageSettings(next);
+    saveLanguageSettings(data.id, next);
+  };
+
+  const inSession = isSessionInProgress(session);
+
+  const snapshotSession = (): SavedSession => ({
+    memorizationId: data.id, sessionId, chunks, chunkSegments, currentChunkIdx, sessionResults, levelSummaries,
+    level, autoLevel, minLevel: session.minLevel, queuedChunks: session.queuedChunks, retakeChunks: session.retakeChunks, awaitingPending, recognitionMode, inputMode, segmentation, savedAt: Date.now()
+  });
+
+  useEffect(() => {
+    if (inSession) saveSession(snapshotSession());
+  }, [inSession, sessionId, currentChunkIdx, sessionResults, level, autoLevel, session.queuedChunks, session.retakeChunks, awaitingPending]);
+
+  useEffect(() => {
+    if (!session.completion) return;
+    clearSession(data.id);
+    onComplete(session.completion.finalAverage);
+  }, [session.completion]);
+
+  useEffect(() => {
+    pruneRecordings().catch(err => console.error("Recording cleanup error:", err));
+  }, []);
+
+  useEffect(() => {
+    loadAttempts(data.id).then(setHistory).catch(err => console.error("History load error:", err));
+    loadStructureAttempts(data.id).then(setStructureAttempts).catch(err => console.error("Structure history load error:", err));
+  }, [data.id]);
+
+  useEffect(() => {
+    const runner = createQueueRunner(transcriber, {
+      memorizationId: data.id,
+      onTranscribed: (item, result) => queuedHandlerRef.current(item, result),
+      onChange: setPending
+    });
+    queueRunnerRef.current = runner;
+    return () => { runner.stop(); queueRunnerRef.current = null; };
+  }, [data.id, transcriber]);
 
   useEffect(() => {
     if (step === 'processing') {
@@ -162,22 +302,72 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
     return () => clearInterval(interval);
   }, [isRecording, isPaused]);
 
+  useEffect(() => {
+    if (!promptingSupported || promptSettings.timing !== 'auto' || !isRecording || isPaused || activePrompt !== null) return;
+    const interval = window.setInterval(() => {
+      if (promptingRef.current) return;
+      if (Date.now() - lastVoiceAtRef.current > promptSettings.silenceSeconds * 1000) promptRef.current();
+    }, 500);
+    return () => clearInterval(interval);
+  }, [promptingSupported, promptSettings, isRecording, isPaused, activePrompt]);
+
+  useEffect(() => { setPromptCount(0); }, [sessionId, currentChunkIdx]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Screen readers hear each step change, since beeps and colour carry it for everyone else.
+  useEffect(() => {
+    if (step === 'practice') {
+      setAnnouncement(inputMode === 'typing'
+        ? `Paragraph ${currentChunkIdx + 1} of ${chunks.length}. Type it from memory.`
+        : `Paragraph ${currentChunkIdx + 1} of ${chunks.length}. Press ${shortcutLabel('record')} to start recording.`);
+    } else if (step === 'processing') {
+      setAnnouncement("Checking your recital.");
+    } else if (step === 'correction') {
+      const { accuracy, substitutedWords, omittedWords } = scoreReview(reviewItems, 0, scoreOptionsFor(chunks[currentChunkIdx], { prompts: promptCount }));
+      setAnnouncement(`${accuracy} percent. ${substitutedWords.length} wrong, ${omittedWords.length} skipped. Press ${shortcutLabel('nextEdit')} to correct the next word, ${shortcutLabel('finish')} to accept.`);
+    } else if (step === 'results' && !awaitingPending) {
+      const accuracy = session.completion ? ` at ${session.completion.finalAverage} percent overall` : '';
+      setAnnouncement(`Session complete. ${sessionResults.length} ${sessionResults.length === 1 ? 'paragraph' : 'paragraphs'} recited${accuracy}.`);
+    }
+  }, [step, currentChunkIdx, awaitingPending, session.completion]);
+
+  useEffect(() => {
+    if (isRecording) setAnnouncement(isPaused ? "Recording paused." : "Recording.");
+  }, [isRecording, isPaused]);
+
+  // Leaving mid-recital must release the mic, or the browser keeps showing it as in use.
+  useEffect(() => () => {
+    levelMeterRef.current?.stop();
+    mediaRecorderRef.current?.stream.getTracks().forEach(t => t.stop());
+    cancelPrompt();
+  }, []);
+
   const formatTimer = (total: number) => {
     const m = Math.floor(total / 60);
     const s = total % 60;
     return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
-  const getMaskedHint = (text: string) => {
-    return text.split(/\s+/).map((word) => {
-      if (word.length === 0) return word;
-      return word[0] + word.slice(1).replace(/[a-zA-Z0-9]/g, '_');
-    }).join(' ');
+  const levelHint = levelDefinition(level).hint;
+
+  const markActive = (active: boolean) => {
+    if (active) { if (activeSinceRef.current === null) activeSinceRef.current = Date.now(); return; }
+    if (activeSinceRef.current !== null) activeMsRef.current += Date.now() - activeSinceRef.current;
+    activeSinceRef.current = null;
   };
 
+  const resetActiveTime = () => { activeMsRef.current = 0; activeSinceRef.current = null; };
+
+  const activeSeconds = () => (activeMsRef.current + (activeSinceRef.current !== null ? Date.now() - activeSinceRef.current : 0)) / 1000;
+
   const playFeedbackSound = (type: 'start' | 'stop') => {
     if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        audioContextRef.current = createAudioContext();
     }
     const ctx = audioContextRef.current;
     if (ctx.state === 'suspended') ctx.resume();
@@ -200,17 +390,6 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
     osc.start(); osc.stop(ctx.currentTime + 0.25);
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.readAsDataURL(blob);
-    });
-  };
-
   const toggleSelection = (index: number) => {
     const newSet = new Set(selectedIndices);
     if (newSet.has(index)) newSet.delete(index);
@@ -228,37 +407,169 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
     const sortedIndices = Array.from(selectedIndices).sort((a: number, b: number) => a - b);
     const selectedTexts = sortedIndices.map(i => segments[i].text);
     
-    setChunks(selectedTexts);
-    setCurrentChunkIdx(0);
-    setStep('practice');
+    dispatch({ type: 'start', sessionId: String(Date.now()), chunks: selectedTexts, chunkSegments: sortedIndices, minLevel: assignment?.requiredLevel });
+    setTypedText("");
+    setQueuedNotice(false);
+    setSavedSession(null);
     setRecordingSeconds(0);
   };
 
+  const resumeSession = async (saved: SavedSession) => {
+    setResuming(true);
+    // Read both stores rather than state, which may not have finished loading when Resume is pressed.
+    const [queue, attempts] = await Promise.all([
+      listPending(data.id).catch(() => pending),
+      loadAttempts(data.id).catch(() => history)
+    ]);
+    setResuming(false);
+    // Queued chunks may have been scored while the session was away; their results are already in history.
+    const stillQueued = queue.filter(p => p.sessionId === saved.sessionId).map(p => p.chunkIndex);
+    const recovered = attempts.filter(a => a.sessionId === saved.sessionId && saved.queuedChunks.includes(a.index) && !stillQueued.includes(a.index));
+    setSegmentation(saved.segmentation);
+    setRecognitionMode(saved.recognitionMode === 'live' && liveSupported ? 'live' : 'batch');
+    setInputMode(saved.inputMode ?? 'speech');
+    setTypedText("");
+    dispatch({ type: 'resume', session: saved, stillQueued, recovered });
+    setSavedSession(null);
+    setRecordingSeconds(0);
+  };
+
+  /** Back to setup with the session kept, so it can be resumed from there. */
+  const leaveSession = () => {
+    handleSquareClick();
+    setCurrentRecording(null);
+    setFailure(null);
+    const snapshot = snapshotSession();
+    saveSession(snapshot);
+    setSavedSession(snapshot);
+    dispatch({ type: 'leave' });
+  };
+
+  const abandonSession = () => {
+    const abandoned = savedSession?.sessionId ?? sessionId;
+    handleSquareClick();
+    abandonedSessions.current.add(abandoned);
+    discardPending(data.id, abandoned).catch(err => console.error("Queue discard error:", err));
+    clearSession(data.id);
+    setSavedSession(null);
+    setCurrentRecording(null);
+    setFailure(null);
+    setQueuedNotice(false);
+    dispatch({ type: 'abandon' });
+  };
+
+  const stopLevelMeter = () => {
+    levelMeterRef.current?.stop();
+    levelMeterRef.current = null;
+  };
+
+  const updatePromptSettings = (changes: Partial<PromptSettings>) => {
+    const next = { ...promptSettings, ...changes };
+    setPromptSettings(next);
+    savePromptSettings(next);
+  };
+
+  // The recorder is held while the prompt plays so the synthesized voice isn't transcribed as the learner's.
+  const givePrompt = async () => {
+    if (!promptingSupported || promptingRef.current) return;
+    const words = expectedWordsFor(currentChunkIdx);
+    const recitedWords = recognitionMode === 'live' && isRecording
+      ? alignProgress(words, liveTranscript.split(/\s+/).filter(w => w.length > 0), isMatch).filter(w => w.status !== 'pending').length
+      : null;
+    const text = nextPrompt({
+      words, recitedWords, promptsGiven: promptCount,
+      previousLine: previousLine(segments, chunkSegments[currentChunkIdx], language.sentenceEnd)
+    });
+    if (!text) return;
+    const holding = isRecording && !isPaused;
+    if (holding) {
+      mediaRecorderRef.current?.pause();
+      liveRecognizerRef.current?.pause();
+      markActive(false);
+    }
+    promptingRef.current = true;
+    lastVoiceAtRef.current = Date.now();
+    setActivePrompt(text);
+    setPromptCount(n => n + 1);
+    await speakPrompt(text, language.locale);
+    promptingRef.current = false;
+    setActivePrompt(null);
+    // The learner may have paused while the prompt played; leave the recorder held if so.
+    if (holding && !isPausedRef.current && mediaRecorderRef.current?.state === 'paused') {
+      mediaRecorderRef.current.resume();
+      liveRecognizerRef.current?.resume();
+      markActive(true);
+    }
+    lastVoiceAtRef.current = Date.now();
+  };
+  promptRef.current = givePrompt;
+
+  const changeMicDevice = (deviceId: string | null) => {
+    setMicDeviceId(deviceId);
+    saveMicDevice(deviceId);
+  };
+
   const startRecording = async () => {
     if (isPaused) { 
         setIsPaused(false); 
         mediaRecorderRef.current?.resume(); 
+        liveRecognizerRef.current?.resume();
+        markActive(true);
+        lastVoiceAtRef.current = Date.now();
         if (navigator.vibrate) navigator.vibrate(50);
         return; 
     }
+    setFailure(null);
+    setQueuedNotice(false);
+    let stream: MediaStream | null = null;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream = await openMicrophone(micDeviceId);
       const recorder = new MediaRecorder(stream);
+      levelMeterRef.current = createLevelMeter(stream, (level) => {
+        setInputLevel(level);
+        if (level > SPEAKING_LEVEL && !promptingRef.current) lastVoiceAtRef.current = Date.now();
+      });
+      lastVoiceAtRef.current = Date.now();
       audioChunksRef.current = [];
       recorder.ondataavailable = (e) => { if (e.data.size > 0) audioChunksRef.current.push(e.data); };
-      recorder.onstop = processAudioTranscription;
+      recorder.onstop = recognitionMode === 'live' ? finishLiveRecital : processAudioTranscription;
       mediaRecorderRef.current = recorder;
       recorder.start();
+      resetActiveTime();
+      markActive(true);
+      if (recognitionMode === 'live') {
+        setLiveTranscript("");
+        liveRecognizerRef.current = createLiveRecognizer({ lang: language.locale, onTranscript: setLiveTranscript, onError: (e) => console.error("Live recognition error:", e) });
+        liveRecognizerRef.current.start();
+      }
       setIsRecording(true);
       setIsPaused(false);
       setRecordingSeconds(0);
       playFeedbackSound('start');
-    } catch (err) { alert("Microphone access denied."); }
+    } catch (err) {
+      console.error("Microphone error:", err);
+      // Setup can fail after the mic opened, which would otherwise leave it live with nothing recording.
+      if (stream) {
+        const recorder = mediaRecorderRef.current;
+        if (recorder?.stream === stream) {
+          recorder.onstop = null;
+          if (recorder.state !== 'inactive') recorder.stop();
+          mediaRecorderRef.current = null;
+        }
+        stream.getTracks().forEach(t => t.stop());
+      }
+      stopLevelMeter();
+      discardLiveRecognizer();
+      resetActiveTime();
+      setMicError(classifyMicError(err));
+    }
   };
 
   const pauseRecording = () => { 
       if (mediaRecorderRef.current && isRecording) { 
           mediaRecorderRef.current.pause(); 
+          liveRecognizerRef.current?.pause();
+          markActive(false);
           setIsPaused(true); 
           if (navigator.vibrate) navigator.vibrate(200);
       } 
@@ -266,6 +577,9 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
 
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
+      markActive(false);
+      stopLevelMeter();
+      cancelPrompt();
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current.stream.getTracks().forEach(t => t.stop());
       setIsRecording(false);
@@ -274,12 +588,23 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
     }
   };
 
+  const discardLiveRecognizer = () => {
+    liveRecognizerRef.current?.abort();
+    liveRecognizerRef.current = null;
+    setLiveTranscript("");
+  };
+
   const handleSquareClick = () => {
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.onstop = null;
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current.stream.getTracks().forEach(t => t.stop());
     }
+    stopLevelMeter();
+    discardLiveRecognizer();
+    cancelPrompt();
+    resetActiveTime();
+    setPromptCount(0);
     setIsRecording(false);
     setIsPaused(false);
     setRecordingSeconds(0);
@@ -291,71 +616,214 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
           mediaRecorderRef.current.stop();
           mediaRecorderRef.current.stream.getTracks().forEach(t => t.stop());
       }
+      stopLevelMeter();
+      discardLiveRecognizer();
+      cancelPrompt();
+      resetActiveTime();
+      setPromptCount(0);
+      setCurrentRecording(null);
       setIsRecording(false); setIsPaused(false); setRecordingSeconds(0);
       audioChunksRef.current = [];
-      if (step === 'correction') setStep('practice');
+      dispatch({ type: 'retake' });
+  };
+
+  const expectedWordsFor = (idx: number) => tokenizeText(chunks[idx]).filter(t => t.isWord).map(t => t.text);
+
+  const failRecital = (failure: RecitalFailure) => {
+    setFailure(failure);
+    setCurrentRecording(null);
+    setRecordingSeconds(0);
+    setPromptCount(0);
+    resetActiveTime();
+    dispatch({ type: 'fail' });
+  };
+
+  const reviewTranscript = (rawText: string, analysis: RecordingAnalysis | null, timings?: WordTiming[]) => {
+    const expectedWords = expectedWordsFor(currentChunkIdx);
+    const checked = checkTranscript(rawText, expectedWords, isMatch);
+    if (!checked.ok) { failRecital(checked); return; }
+    const spokenWords = checked.words;
+    const wordTimings = timings ?? (analysis ? estimateWordTimings(analysis.segments, spokenWords) : undefined);
+    dispatch({ type: 'transcribed', items: buildReviewItems(expectedWords, spokenWords, activeSeconds(), wordTimings, matchWords) });
+  };
+
+  /** Runs local checks on the audio. Resolves false when it was rejected, null when it could not be analysed. */
+  const preflightRecording = async (audioBlob: Blob): Promise<RecordingAnalysis | null | false> => {
+    const analysis = await analyzeRecording(audioBlob).catch(() => null);
+    if (!analysis) return null;
+    const check = checkRecording(analysis, expectedWordsFor(currentChunkIdx).length);
+    if (!check.ok) { failRecital(check); return false; }
+    return analysis;
   };
 
   const processAudioTranscription = async () => {
-    setStep('processing');
+    dispatch({ type: 'record' });
     const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-    const base64Audio = await blobToBase64(audioBlob);
+    setCurrentRecording(audioBlob);
+    const analysis = await preflightRecording(audioBlob);
+    if (analysis === false) return;
+    if (!navigator.onLine) { await queueRecital(audioBlob); return; }
+    let result: TranscriptionResult;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{
-            parts: [
-              { inlineData: { mimeType: 'audio/webm', data: base64Audio } },
-              { text: "TRANSCRIPTION MODE: You are a Zero-Error Literal Transducer. Output ONLY the literal spoken words. If you hear silence, static, background noise, or no clear speech, return an empty string. NO punctuation, NO capitalization." }
-            ]
-        }]
-      });
-      const rawText = (response.text || "").trim();
-      const isBlacklisted = /empty string|no spoken words|identified|transcription|provided|unintelligible|silence|background noise|quick brown fox/i.test(rawText);
-      const expectedWords = tokenizeText(chunks[currentChunkIdx]).filter(t => t.isWord).map(t => t.text);
-      const spokenWordsRaw = rawText.split(/\s+/).filter(w => w.length > 0);
-      const hasOverlap = spokenWordsRaw.some(sw => expectedWords.some(ew => normalize(ew) === normalize(sw)));
-      const transcription = (hasOverlap && !isBlacklisted) ? rawText : "";
-      const spokenWords = transcription.trim().split(/\s+/).filter(w => w.length > 0);
-      const items = expectedWords.map((word, i) => ({ original: word, spoken: spokenWords[i] || "...", editing: false }));
-      setReviewItems(items);
-      setStep('correction');
+      result = await transcriber.transcribe({ audio: audioBlob, mimeType: 'audio/webm', expectedText: chunks[currentChunkIdx], language: language.code });
     } catch (error) {
-      console.error("Transcription error:", error);
-      alert("Neural Analysis failed. Please check your connection.");
-      setStep('practice');
+      // Keep the recording and retry in the background rather than making the learner recite again.
+      console.error("Transcription error, queueing for retry:", error);
+      await queueRecital(audioBlob);
+      return;
     }
+    reviewTranscript(result.text, analysis, result.words);
+  };
+
+  // Live mode already has the words from the browser recognizer, so nothing is uploaded.
+  const finishLiveRecital = async () => {
+    const recognizer = liveRecognizerRef.current;
+    liveRecognizerRef.current = null;
+    dispatch({ type: 'record' });
+    const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+    setCurrentRecording(audioBlob);
+    const rawText = recognizer ? await recognizer.stop() : liveTranscript;
+    setLiveTranscript("");
+    const analysis = await preflightRecording(audioBlob);
+    if (analysis === false) return;
+    reviewTranscript(rawText, analysis);
+  };
+
+  // Typed recitals are timed from the first keystroke to the check, so pauses before starting don't count.
+  const handleTypedChange = (value: string) => {
+    if (!typedText && value) { resetActiveTime(); markActive(true); }
+    setTypedText(value);
+  };
+
+  const submitTypedRecital = () => {
+    if (!typedText.trim()) return;
+    markActive(false);
+    setFailure(null);
+    dispatch({ type: 'record' });
+    reviewTranscript(typedText, null);
   };
 
-  const updateReviewWord = (index: number, newVal: string) => { setReviewItems(prev => prev.map((item, i) => i === index ? { ...item, spoken: newVal, editing: false } : item)); };
+  const updateReviewWord = (index: number, newVal: string) => { dispatch({ type: 'editWord', index, spoken: newVal, matchWords }); };
+
+  const dismissInsertedWord = (index: number) => { dispatch({ type: 'dismissWord', index }); };
 
   const toggleEditWord = (index: number) => {
     const isOpening = !reviewItems[index].editing;
-    setReviewItems(prev => prev.map((item, i) => i === index ? { ...item, editing: isOpening } : item));
+    dispatch({ type: 'toggleEdit', index });
     if (isOpening) { setTimeout(() => { document.getElementById(`edit-item-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' }); }, 150); }
   };
 
-  const handleFinishChunk = () => {
-    let correctCount = 0;
-    const missed: string[] = [];
-    const wasSilent = reviewItems.every(item => item.spoken === "...");
-    reviewItems.forEach(item => { if (isMatch(item.original, item.spoken)) correctCount++; else if (!wasSilent) missed.push(item.original); });
-    const chunkAccuracy = Math.round((correctCount / reviewItems.length) * 100);
-    const result: ChunkResult = { index: currentChunkIdx, expected: chunks[currentChunkIdx], spoken: reviewItems.map(i => i.spoken).join(' '), accuracy: chunkAccuracy, missedWords: missed, duration: recordingSeconds, level: level };
-    const newResults = [...sessionResults, result];
-    setSessionResults(newResults);
-    if (currentChunkIdx < chunks.length - 1) { setCurrentChunkIdx(prev => prev + 1); setStep('practice'); setRecordingSeconds(0); }
-    else {
-      const levelResults = newResults.filter(r => r.level === level);
-      const avgAcc = Math.round(levelResults.reduce((a, b) => a + b.accuracy, 0) / levelResults.length);
-      const totalTime = levelResults.reduce((a, b) => a + b.duration, 0);
-      const newSummaries = { ...levelSummaries, [level]: { accuracy: avgAcc, time: totalTime, completed: true } };
-      setLevelSummaries(newSummaries);
-      const finalAvg = Math.round((newSummaries[1].accuracy + newSummaries[2].accuracy) / (newSummaries[2].completed ? 2 : 1));
-      onComplete(finalAvg);
-      setStep('results');
+  const editNextWord = () => {
+    const from = reviewItems.findIndex(item => item.editing);
+    const needsFix = (i: number) => ['substituted', 'omitted', 'close'].includes(reviewItems[i].status) && !reviewItems[i].editing;
+    const next = reviewItems.findIndex((_, i) => i > from && needsFix(i));
+    const target = next >= 0 ? next : reviewItems.findIndex((_, i) => needsFix(i));
+    if (target >= 0) toggleEditWord(target);
+  };
+
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (micError) return;
+    const action = shortcutFor(e);
+    if (!action) return;
+    if (step === 'practice' && inputMode === 'speech') {
+      if (action === 'record') {
+        // The mic button is disabled while a prompt plays, and so is its shortcut.
+        if (activePrompt !== null) return;
+        if (isRecording && !isPaused) pauseRecording();
+        else startRecording();
+      }
+      else if (action === 'finish' && isRecording) stopRecording();
+      else if (action === 'retake') handleSquareClick();
+      else if (action === 'prompt' && promptingSupported && promptSettings.timing !== 'off') givePrompt();
+      else return;
+    } else if (step === 'correction') {
+      if (action === 'finish') handleFinishChunk();
+      else if (action === 'retake') retakeChunk();
+      else if (action === 'nextEdit') editNextWord();
+      else return;
+    } else return;
+    e.preventDefault();
+  };
+  shortcutRef.current = handleShortcut;
+
+  const stashRecording = (blob: Blob, segmentIndex: number, seconds: number): string => {
+    const key = recordingKey(data.id, sessionId, segmentIndex);
+    keepRecording(key, { blob, duration: seconds }, saveRecordings).catch(err => console.error("Recording save error:", err));
+    setSessionRecordings(prev => ({ ...prev, [key]: blob }));
+    return key;
+  };
+
+  const recordChunkResult = (result: ChunkResult, resultSessionId: string) => {
+    const nextSchedule = recordSegmentReview(data.id, result);
+    setSchedules(prev => ({ ...prev, [nextSchedule.segmentKey]: nextSchedule }));
+    saveAttempt(data.id, resultSessionId, result)
+      .then(attempt => setHistory(prev => [...prev, attempt]))
+      .catch(err => console.error("History save error:", err));
+  };
+
+  const queueRecital = async (audioBlob: Blob) => {
+    const segmentIndex = chunkSegments[currentChunkIdx];
+    const seconds = activeSeconds();
+    stashRecording(audioBlob, segmentIndex, seconds);
+    setCurrentRecording(null);
+    try {
+      await enqueueTranscription({
+        memorizationId: data.id, sessionId, chunkIndex: currentChunkIdx, segmentIndex, expected: chunks[currentChunkIdx],
+        level, audio: audioBlob, mimeType: 'audio/webm', language: language.code, duration: seconds, prompts: promptCount
+      });
+    } catch (err) {
+      console.error("Queue error:", err);
+      failRecital({ ok: false, reason: 'provider-error' });
+      return;
     }
+    setQueuedNotice(true);
+    queueRunnerRef.current?.kick();
+    dispatch({ type: 'queued' });
+  };
+
+  const handleQueuedTranscript = (item: PendingTranscription, transcription: TranscriptionResult) => {
+    if (abandonedSessions.current.has(item.sessionId)) return;
+    const expectedWords = tokenizeText(item.expected).filter(t => t.isWord).map(t => t.text);
+    const checked = checkTranscript(transcription.text, expectedWords, isMatch);
+    // A failed check is no score: the chunk goes back to be recited again, as it would have live. Sessions that
+    // aren't on screen pick it up when resumed.
+    if (!checked.ok) {
+      if (item.sessionId === sessionId) {
+        dispatch({ type: 'queuedFailed', index: item.chunkIndex });
+        setAnnouncement(`${segments[item.segmentIndex]?.name ?? 'A paragraph'} couldn't be scored and needs reciting again.`);
+      }
+      return;
+    }
+    const items = buildReviewItems(expectedWords, checked.words, item.duration, transcription.words, matchWords);
+    // Segment lines are only trustworthy while the session that queued the chunk is still on screen.
+    const segment = item.sessionId === sessionId ? segments[item.segmentIndex] : undefined;
+    const result: ChunkResult = {
+      index: item.chunkIndex, segmentIndex: item.segmentIndex, expected: item.expected, duration: Math.round(item.duration), level: item.level,
+      recordingKey: recordingKey(item.memorizationId, item.sessionId, item.segmentIndex), inputMode: 'speech',
+      ...scoreReview(items, item.duration, scoreOptionsFor(item.expected, { segment, prompts: item.prompts }))
+    };
+    recordChunkResult(result, item.sessionId);
+    if (item.sessionId === sessionId) dispatch({ type: 'queuedResult', result });
+  };
+  queuedHandlerRef.current = handleQueuedTranscript;
+
+  const handleFinishChunk = () => {
+    const segmentIndex = chunkSegments[currentChunkIdx];
+    const spokenSeconds = activeSeconds();
+    const key = currentRecording ? stashRecording(currentRecording, segmentIndex, spokenSeconds) : undefined;
+    setCurrentRecording(null);
+    const scored = scoreReview(reviewItems, spokenSeconds, scoreOptionsFor(chunks[currentChunkIdx], { segment: segments[segmentIndex], prompts: promptCount }));
+    const result: ChunkResult = {
+      index: currentChunkIdx, segmentIndex, expected: chunks[currentChunkIdx], duration: Math.round(spokenSeconds), level: level, recordingKey: key,
+      ...scored,
+      // Pauses while typing are not speech hesitations.
+      fluency: inputMode === 'typing' ? undefined : scored.fluency,
+      inputMode
+    };
+    recordChunkResult(result, sessionId);
+    dispatch({ type: 'finishChunk', result });
+    setRecordingSeconds(0);
+    setTypedText("");
   };
 
   const renderContent = () => {
@@ -371,9 +839,104 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
                   <h2 className="text-xl font-bold text-content leading-tight">Recite Setup</h2>
                   <p className="text-xs text-content-muted">Select paragraphs and recall level.</p>
                 </div>
+                {(history.length > 0 || structureAttempts.length > 0) && (
+                  <button onClick={() => dispatch({ type: 'showView', view: 'history' })} className="ml-auto p-2 text-primary-600 hover:bg-primary-50 rounded-xl flex items-center gap-1 text-[10px] font-black uppercase tracking-widest">
+                    <Activity size={16} /> History
+                  </button>
+                )}
             </div>
 
-            <div className="bg-card p-4 rounded-xl shadow-sm border border-gray-100 flex items-center justify-between cursor-pointer hover:bg-canvas" onClick={toggleAll}>
+            {segments.length >= 2 && (
+              <button onClick={() => dispatch({ type: 'showView', view: 'structure' })} className="w-full p-4 bg-white border border-gray-100 rounded-xl shadow-sm flex items-center gap-3 text-left">
+                <ListOrdered size={18} className="text-primary-600 shrink-0" />
+                <span className="flex-1 text-sm font-bold text-content">Structure Drill</span>
+                <span className="text-[10px] font-bold text-content-muted uppercase">
+                  {structureAttempts.length > 0 ? `Last ${structureAttempts[structureAttempts.length - 1].accuracy}%` : `Order ${structureSegments.length} paragraphs`}
+                </span>
+                <ChevronRight size={16} className="text-content-muted" />
+              </button>
+            )}
+
+            {drillItems.length > 0 && (
+              <button onClick={() => dispatch({ type: 'showView', view: 'drill' })} className="w-full p-4 bg-white border border-gray-100 rounded-xl shadow-sm flex items-center gap-3 text-left">
+                <Target size={18} className="text-primary-600 shrink-0" />
+                <span className="flex-1 text-sm font-bold text-content">Word Drill</span>
+                <span className="text-[10px] font-bold text-content-muted uppercase">{drillItems.length} to practise</span>
+                <ChevronRight size={16} className="text-content-muted" />
+              </button>
+            )}
+
+            <button onClick={() => dispatch({ type: 'showView', view: 'import' })} className="w-full p-4 bg-white border border-gray-100 rounded-xl shadow-sm flex items-center gap-3 text-left">
+              <Upload size={18} className="text-primary-600 shrink-0" />
+              <span className="flex-1 text-sm font-bold text-content">Import Texts</span>
+              <span className="text-[10px] font-bold text-content-muted uppercase">{importedCount !== null ? `${importedCount} saved to imported texts` : 'JSON, Markdown, CSV or text'}</span>
+              <ChevronRight size={16} className="text-content-muted" />
+            </button>
+
+            {savedSession && (() => {
+              const { done, total } = sessionProgress(savedSession);
+              return (
+                <Card className="p-4 border-primary-100 bg-primary-50 shadow-sm flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <span className="block text-sm font-bold text-primary-700">Unfinished session</span>
+                    <span className="block text-xs text-primary-600">{done} of {total} paragraphs recited • Level {savedSession.level} • {new Date(savedSession.savedAt).toLocaleString()}</span>
+                  </div>
+                  <button onClick={abandonSession} className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-content-muted flex items-center gap-1"><Trash2 size={14} /> Abandon</button>
+                  <Button onClick={() => resumeSession(savedSession)} disabled={resuming} className="px-4 py-2 text-xs font-bold rounded-xl flex items-center gap-1"><Play size={14} /> RESUME</Button>
+                </Card>
+              );
+            })()}
+
+            <AssignmentPanel
+              memorizationId={data.id}
+              title={data.title}
+              assignment={assignment}
+              onChange={updateAssignment}
+              onExport={exportReport}
+              onOpenClassReports={() => dispatch({ type: 'showView', view: 'class' })}
+            />
+
+            <div className="space-y-2 px-1">
+               <div className="flex flex-wrap gap-2">
+                 {SEGMENTATION_MODES.map(({ mode, label }) => (
+                   <button key={mode} onClick={() => setSegmentation(prev => ({ ...prev, mode }))} className={`px-3 py-1.5 rounded-full border text-[10px] font-black uppercase tracking-widest transition-colors ${segmentation.mode === mode ? 'border-primary-600 bg-primary-50 text-primary-600' : 'border-gray-200 bg-white text-content-muted'}`}>{label}</button>
+                 ))}
+               </div>
+               {segmentation.mode === 'poem' && (
+                 <div className="flex flex-wrap gap-2">
+                   {POEM_GROUPINGS.map(({ grouping, label }) => (
+                     <button key={grouping} onClick={() => setSegmentation(prev => ({ ...prev, poemGrouping: grouping }))} className={`px-3 py-1 rounded-full text-[10px] font-bold transition-colors ${(segmentation.poemGrouping ?? 'sonnet') === grouping ? 'bg-primary-600 text-white' : 'bg-gray-100 text-content-muted'}`}>{label}</button>
+                   ))}
+                 </div>
+               )}
+               {segmentation.mode === 'words' && (
+                 <label className="flex items-center gap-2 text-xs text-content-muted">
+                   Words per part
+                   <input type="number" min={5} max={500} value={segmentation.wordsPerSegment} onChange={(e) => setSegmentation(prev => ({ ...prev, wordsPerSegment: Math.max(5, Number(e.target.value) || 5) }))} className="w-20 p-1.5 text-sm border border-gray-200 rounded-md outline-none focus:border-primary-500" />
+                 </label>
+               )}
+               {segmentation.mode === 'markers' && (
+                 <label className="flex items-center gap-2 text-xs text-content-muted">
+                   Split on lines reading
+                   <input value={segmentation.marker ?? '---'} onChange={(e) => setSegmentation(prev => ({ ...prev, marker: e.target.value }))} className="w-20 p-1.5 text-sm font-mono border border-gray-200 rounded-md outline-none focus:border-primary-500" />
+                 </label>
+               )}
+               <p className="text-[10px] text-content-muted">Times estimated at your pace of {wordsPerMinute} words/min.</p>
+               <div className="flex items-center gap-3 text-xs text-content-muted">
+                 <label className="flex items-center gap-2">
+                   Language
+                   <select value={language.code} onChange={(e) => updateLanguageSettings({ language: e.target.value })} className="p-1.5 text-sm border border-gray-200 rounded-md outline-none focus:border-primary-500 bg-white">
+                     {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+                   </select>
+                 </label>
+                 <label className="flex items-center gap-2 cursor-pointer">
+                   <input type="checkbox" checked={languageSettings.ignoreDiacritics} onChange={(e) => updateLanguageSettings({ ignoreDiacritics: e.target.checked })} className="accent-primary-600" />
+                   Ignore accents
+                 </label>
+               </div>
+            </div>
+
+            <div role="checkbox" aria-checked={selectedIndices.size === segments.length} tabIndex={0} onKeyDown={(e) => (e.key === ' ' || e.key === 'Enter') && (e.preventDefault(), toggleAll())} className="bg-card p-4 rounded-xl shadow-sm border border-gray-100 flex items-center justify-between cursor-pointer hover:bg-canvas focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500" onClick={toggleAll}>
                <div className="flex items-center gap-3">
                  <div className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${selectedIndices.size === segments.length ? 'bg-primary-600 border-primary-600' : 'border-gray-300'}`}>
                    {selectedIndices.size === segments.length && <Check size={14} className="text-white" />}
@@ -382,37 +945,109 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
                </div>
             </div>
 
-            {segments.map((seg, idx) => (
-               <div key={idx} className="bg-card p-4 rounded-xl shadow-sm border border-gray-100 flex items-start gap-3 cursor-pointer hover:bg-canvas" onClick={() => toggleSelection(idx)}>
+            {segments.map((seg, idx) => {
+               const schedule = schedules[segmentKey(seg.text)];
+               return (
+               <div key={idx} role="checkbox" aria-checked={selectedIndices.has(idx)} tabIndex={0} onKeyDown={(e) => (e.key === ' ' || e.key === 'Enter') && (e.preventDefault(), toggleSelection(idx))} className="bg-card p-4 rounded-xl shadow-sm border border-gray-100 flex items-start gap-3 cursor-pointer hover:bg-canvas focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500" onClick={() => toggleSelection(idx)}>
                  <div className={`w-5 h-5 rounded border flex items-center justify-center mt-1 shrink-0 transition-colors ${selectedIndices.has(idx) ? 'bg-primary-600 border-primary-600' : 'border-gray-300'}`}>
                    {selectedIndices.has(idx) && <Check size={14} className="text-white" />}
                  </div>
                  <div className="flex-1 min-w-0">
                    <div className="flex justify-between items-center mb-1">
                       <span className="font-bold text-content text-xs uppercase tracking-tight">{seg.title}</span>
+                      {schedule && (
+                        <span className={`text-[9px] font-black uppercase tracking-widest shrink-0 ml-2 ${schedule.dueAt <= Date.now() ? 'text-primary-600' : 'text-content-muted'}`}>{formatDueIn(schedule)}</span>
+                      )}
                    </div>
                    {/* SHOW 2 LINES OF PREVIEW */}
                    <p className="text-sm text-content-muted line-clamp-2 italic">{seg.text}</p>
                  </div>
                </div>
-            ))}
+               );
+            })}
           </div>
 
           <div className="bg-card border-t border-gray-100 p-6 shrink-0 z-20 shadow-2xl">
               <div className="max-w-md mx-auto space-y-6">
                   <div>
                     <label className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] block mb-3 text-center">Difficulty</label>
+                    <div className="grid grid-cols-5 gap-2">
+                      {DIFFICULTY_LEVELS.map(d => (
+                        <button key={d.level} onClick={() => dispatch({ type: 'setLevel', level: d.level })} disabled={!!assignment && d.level < assignment.requiredLevel} className={`py-3 px-1 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 disabled:opacity-30 disabled:cursor-not-allowed ${level === d.level ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                          <span>{d.level}</span>
+                          <span className="text-[8px] opacity-60 uppercase font-black leading-tight text-center">{d.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <label className="flex items-center justify-center gap-2 mt-3 text-[10px] font-bold text-content-muted uppercase tracking-widest cursor-pointer">
+                      <input type="checkbox" checked={autoLevel} onChange={(e) => dispatch({ type: 'setAutoLevel', autoLevel: e.target.checked })} className="accent-primary-600" />
+                      Adjust level as I go
+                    </label>
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] block mb-3 text-center">Grading</label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {GRADING_MODES.map(({ mode, label, description }) => (
+                        <button key={mode} onClick={() => updateGradingMode(mode)} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 ${gradingMode === mode ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                          <span>{label}</span>
+                          <span className="text-[9px] opacity-60 uppercase font-black">{description}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] block mb-3 text-center">Recite By</label>
                     <div className="grid grid-cols-2 gap-3">
-                      <button onClick={() => setLevel(1)} className={`py-4 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 ${level === 1 ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
-                        <span>Level 1</span>
-                        <span className="text-[9px] opacity-60 uppercase font-black">Partial Hints</span>
+                      <button onClick={() => setInputMode('speech')} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all flex items-center justify-center gap-2 ${inputMode === 'speech' ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                        <Mic size={16} /> Speaking
                       </button>
-                      <button onClick={() => setLevel(2)} className={`py-4 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 ${level === 2 ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
-                        <span>Level 2</span>
-                        <span className="text-[9px] opacity-60 uppercase font-black">Pure Recall</span>
+                      <button onClick={() => setInputMode('typing')} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all flex items-center justify-center gap-2 ${inputMode === 'typing' ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                        <Keyboard size={16} /> Typing
                       </button>
                     </div>
                   </div>
+                  {inputMode === 'speech' && (
+                  <label className="flex items-center justify-center gap-2 text-[10px] font-bold text-content-muted uppercase tracking-widest cursor-pointer">
+                    <input type="checkbox" checked={saveRecordings} onChange={(e) => setSaveRecordings(e.target.checked)} className="accent-primary-600" />
+                    Keep recordings on this device
+                  </label>
+                  )}
+                  {liveSupported && inputMode === 'speech' && (
+                    <div>
+                      <label className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] block mb-3 text-center">Recognition</label>
+                      <div className="grid grid-cols-2 gap-3">
+                        <button onClick={() => setRecognitionMode('batch')} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 ${recognitionMode === 'batch' ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                          <span>After Recital</span>
+                          <span className="text-[9px] opacity-60 uppercase font-black">Neural Analysis</span>
+                        </button>
+                        <button onClick={() => setRecognitionMode('live')} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all flex flex-col items-center gap-1 ${recognitionMode === 'live' ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>
+                          <span>Live</span>
+                          <span className="text-[9px] opacity-60 uppercase font-black">Word by Word</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {promptingSupported && inputMode === 'speech' && (
+                    <div>
+                      <label className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] block mb-3 text-center">Spoken Prompts</label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {PROMPT_TIMINGS.map(({ timing, label }) => (
+                          <button key={timing} onClick={() => updatePromptSettings({ timing })} className={`py-3 rounded-xl border-2 font-bold text-xs transition-all ${promptSettings.timing === timing ? 'border-primary-600 bg-primary-50 text-primary-600 shadow-sm' : 'border-gray-100 bg-gray-50 text-gray-400'}`}>{label}</button>
+                        ))}
+                      </div>
+                      {promptSettings.timing === 'auto' && (
+                        <div className="flex items-center justify-center gap-2 mt-3 text-[10px] font-bold text-content-muted uppercase tracking-widest">
+                          After
+                          {SILENCE_OPTIONS.map(seconds => (
+                            <button key={seconds} onClick={() => updatePromptSettings({ silenceSeconds: seconds })} className={`px-2.5 py-1 rounded-full border ${promptSettings.silenceSeconds === seconds ? 'border-primary-600 bg-primary-50 text-primary-600' : 'border-gray-200 text-content-muted'}`}>{seconds}s</button>
+                          ))}
+                          of silence
+                        </div>
+                      )}
+                      {promptSettings.timing !== 'off' && <p className="mt-2 text-[10px] text-content-muted text-center">Each prompt costs {PROMPT_PENALTY}% of the paragraph's score.</p>}
+                    </div>
+                  )}
+                  {inputMode === 'speech' && <MicrophoneSettings deviceId={micDeviceId} onDeviceChange={changeMicDevice} />}
                   <Button onClick={handleStartGame} disabled={selectedIndices.size === 0} className="w-full py-4 text-lg font-bold shadow-xl rounded-2xl flex items-center justify-center gap-2">
                     START SESSION <ArrowRightCircle size={22} />
                   </Button>
@@ -424,18 +1059,36 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
 
     if (step === 'practice') {
       const progress = Math.round(((currentChunkIdx) / chunks.length) * 100);
-      const hintText = getMaskedHint(chunks[currentChunkIdx]);
+      const chunkLines = segments[chunkSegments[currentChunkIdx]]?.lines;
+      const hintText = !levelHint ? null : chunkLines
+        ? chunkLines.map((line, i) => <span key={i} className="block">{applyHint(line, levelHint, language.sentenceEnd)}</span>)
+        : applyHint(chunks[currentChunkIdx], levelHint, language.sentenceEnd);
+      const showLive = recognitionMode === 'live' && isRecording;
+      const expectedWords = tokenizeText(chunks[currentChunkIdx]).filter(t => t.isWord).map(t => t.text);
+      const liveProgress = showLive ? alignProgress(expectedWords, liveTranscript.split(/\s+/).filter(w => w.length > 0), isMatch) : [];
+      const divergedAt = liveProgress.reduce((found, w, i) => (w.status === 'substituted' || w.status === 'omitted') ? i : found, -1);
+      const lastReached = liveProgress.reduce((found, w, i) => w.status !== 'pending' ? i : found, -1);
+      const isDiverging = divergedAt >= 0 && divergedAt >= lastReached - 2;
+      const queuedCount = pending.filter(p => p.sessionId === sessionId).length;
+      const failureMessage = failure ? (inputMode === 'typing' && TYPED_FAILURE_MESSAGES[failure.reason]) || FAILURE_MESSAGES[failure.reason] : null;
+      const typedWordCount = typedText.split(/\s+/).filter(w => w.length > 0).length;
 
       return (
         <div className="flex flex-col h-full bg-canvas relative overflow-hidden">
           <div className="shrink-0 px-4 py-1.5 bg-white border-b border-gray-100 flex items-center z-10">
-            <button onClick={() => setStep('setup')} className="p-1.5 -ml-1 text-content">
+            <button onClick={leaveSession} className="p-1.5 -ml-1 text-content" title="Back to setup (session is kept)">
               <ChevronLeft size={22} />
             </button>
             <div className="flex-1 ml-3">
               <div className="flex items-center justify-between mb-0.5">
-                 <span className="text-[9px] font-black text-primary-600 uppercase tracking-widest">Level {level}</span>
-                 <span className="text-[9px] font-bold text-content-muted uppercase">Para {currentChunkIdx + 1} of {chunks.length}</span>
+                 <span className="text-[9px] font-black text-primary-600 uppercase tracking-widest">
+                   Level {level} • {levelDefinition(level).name}
+                   {levelChange && <span className={`ml-2 ${levelChange === 'promoted' ? 'text-green-600' : 'text-amber-500'}`}>{levelChange === 'promoted' ? '▲ Promoted' : '▼ Eased'}</span>}
+                 </span>
+                 <span className="text-[9px] font-bold text-content-muted uppercase">
+                   {queuedCount > 0 && <span className="mr-2 text-amber-600"><CloudOff size={10} className="inline -mt-0.5" /> {queuedCount} queued</span>}
+                   Para {currentChunkIdx + 1} of {chunks.length}
+                 </span>
               </div>
               <div className="w-full h-1 bg-gray-100 rounded-full overflow-hidden">
                  <div className="h-full bg-primary-500 transition-all duration-500" style={{ width: `${progress}%` }} />
@@ -444,11 +1097,69 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
           </div>
 
           <div className="flex-1 p-4 flex flex-col items-center justify-center relative">
-              <Card className={`w-full max-w-2xl max-h-[45vh] overflow-y-auto p-10 text-center relative border-gray-100 shadow-md ${notepageMode ? 'notepage-bg' : ''}`}>
-                  <div className="text-xl font-medium text-content leading-relaxed italic select-none">
-                      {level === 1 ? hintText : (isRecording ? (isPaused ? "Recording Paused" : "Speaking...") : "Recall from memory")}
+              {failure && failureMessage && !isRecording && (
+                  <div role="alert" className="w-full max-w-2xl mb-4 flex items-start gap-3 p-4 bg-red-50 border border-red-100 rounded-xl">
+                      <AlertCircle size={18} className="text-red-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 text-left">
+                          <span className="block text-sm font-bold text-red-700">{failureMessage.title}</span>
+                          <span className="block text-xs text-red-600 leading-relaxed">{failureMessage.message}</span>
+                      </div>
+                      <button onClick={() => setFailure(null)} aria-label="Dismiss" className="p-1 text-red-400"><X size={14} /></button>
+                  </div>
+              )}
+              {queuedNotice && !failure && !isRecording && (
+                  <div role="status" className="w-full max-w-2xl mb-4 flex items-start gap-3 p-4 bg-amber-50 border border-amber-100 rounded-xl">
+                      <CloudOff size={18} className="text-amber-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 text-left">
+                          <span className="block text-sm font-bold text-amber-700">Saved for later</span>
+                          <span className="block text-xs text-amber-600 leading-relaxed">Couldn't reach the transcription service. Your last recital is kept on this device and will be scored automatically once you're back online.</span>
+                      </div>
+                      <button onClick={() => setQueuedNotice(false)} aria-label="Dismiss" className="p-1 text-amber-400"><X size={14} /></button>
+                  </div>
+              )}
+              {session.retakeChunks.length > 0 && !isRecording && (
+                  <div role="status" className="w-full max-w-2xl mb-4 flex items-start gap-3 p-4 bg-amber-50 border border-amber-100 rounded-xl">
+                      <RotateCcw size={18} className="text-amber-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 text-left">
+                          {session.retakeChunks.includes(currentChunkIdx) ? (
+                            <>
+                              <span className="block text-sm font-bold text-amber-700">Recite this paragraph again</span>
+                              <span className="block text-xs text-amber-600 leading-relaxed">Its saved recording couldn't be scored, so it wasn't counted.</span>
+                            </>
+                          ) : (
+                            <>
+                              <span className="block text-sm font-bold text-amber-700">{session.retakeChunks.map(i => segments[chunkSegments[i]]?.name ?? `Paragraph ${i + 1}`).join(', ')} to recite again</span>
+                              <span className="block text-xs text-amber-600 leading-relaxed">A saved recording couldn't be scored. It comes round again once you've recited the rest.</span>
+                            </>
+                          )}
+                      </div>
                   </div>
+              )}
+              <Card className={`w-full max-w-2xl max-h-[45vh] overflow-y-auto p-10 text-center relative border-gray-100 shadow-md ${notepageMode ? 'notepage-bg' : ''}`}>
+                  {showLive ? (
+                    <div className="text-xl font-medium leading-relaxed italic select-none flex flex-wrap justify-center gap-x-1.5">
+                        {expectedWords.map((word, i) => {
+                          const w = liveProgress[i];
+                          if (w.status === 'pending') {
+                            const shown = levelHint ? levelHint(word, i, i === 0 || language.sentenceEnd.test(expectedWords[i - 1])) : null;
+                            return shown ? <span key={i} className="text-gray-300">{shown}</span> : null;
+                          }
+                          const color = w.status === 'correct' ? 'text-green-600' : w.status === 'omitted' ? 'text-amber-500 line-through' : 'text-red-500';
+                          return <span key={i} className={`${color} transition-colors`}>{word}</span>;
+                        })}
+                    </div>
+                  ) : (
+                    <div className="text-xl font-medium text-content leading-relaxed italic select-none">
+                        {hintText ?? (isRecording ? (isPaused ? "Recording Paused" : "Speaking...") : "Recall from memory")}
+                    </div>
+                  )}
               </Card>
+              {showLive && isDiverging && (
+                  <div className="mt-4 flex items-center gap-2 px-3 py-1 bg-red-50 border border-red-100 rounded-full shadow-sm">
+                      <AlertCircle size={12} className="text-red-500" />
+                      <span className="text-[10px] font-black text-red-500 uppercase tracking-widest">Off track at "{expectedWords[divergedAt]}"</span>
+                  </div>
+              )}
               {isRecording && (
                   <div className="mt-4 flex items-center gap-2 px-3 py-1 bg-white border border-red-100 rounded-full shadow-sm">
                       <div className={`w-2 h-2 bg-red-500 rounded-full ${isPaused ? '' : 'animate-pulse'}`} />
@@ -457,43 +1168,89 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
               )}
           </div>
 
-          <div className="bg-card border-t border-gray-100 p-6 shrink-0 z-20 flex flex-col items-center gap-6 shadow-2xl">
-              <div className="flex items-center gap-2 px-4 py-1 bg-white border border-gray-200 rounded-full shadow-sm">
-                  <Timer size={14} className={isRecording && !isPaused ? "text-primary-600" : "text-gray-400"} />
-                  <span className="text-sm font-mono font-bold text-content tabular-nums">{formatTimer(recordingSeconds)}</span>
-              </div>
+          {inputMode === 'typing' ? (
+            <div className="bg-card border-t border-gray-100 p-4 shrink-0 z-20 flex flex-col gap-3 shadow-2xl">
+                <textarea
+                    value={typedText}
+                    onChange={(e) => handleTypedChange(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && (e.ctrlKey || e.metaKey) && (e.preventDefault(), submitTypedRecital())}
+                    placeholder="Type the paragraph from memory..."
+                    aria-label={`Paragraph ${currentChunkIdx + 1}, typed from memory. Press Control Enter to check.`}
+                    rows={5}
+                    autoFocus
+                    spellCheck={false}
+                    autoCorrect="off"
+                    autoCapitalize="off"
+                    autoComplete="off"
+                    className="w-full max-w-2xl mx-auto p-4 text-base leading-relaxed border-2 border-gray-100 rounded-xl outline-none focus:border-primary-500 resize-none"
+                />
+                <div className="w-full max-w-2xl mx-auto flex items-center gap-3">
+                    <span className="text-[10px] font-black text-content-muted uppercase tracking-widest">{typedWordCount} / {expectedWords.length} words</span>
+                    <button onClick={() => { setTypedText(""); resetActiveTime(); }} className="ml-auto w-10 h-10 rounded-full border-2 border-gray-100 text-gray-400 hover:text-red-500 transition-all flex items-center justify-center">
+                        <RotateCcw size={16} />
+                    </button>
+                    <Button onClick={submitTypedRecital} disabled={!typedText.trim()} className="px-6 py-2.5 font-bold rounded-xl flex items-center gap-2">
+                        <Check size={18} strokeWidth={3} /> CHECK
+                    </Button>
+                </div>
+            </div>
+          ) : (
+            <div className="bg-card border-t border-gray-100 p-6 shrink-0 z-20 flex flex-col items-center gap-6 shadow-2xl">
+                <div className="flex items-center gap-2 px-4 py-1 bg-white border border-gray-200 rounded-full shadow-sm">
+                    <Timer size={14} className={isRecording && !isPaused ? "text-primary-600" : "text-gray-400"} />
+                    <span className="text-sm font-mono font-bold text-content tabular-nums">{formatTimer(recordingSeconds)}</span>
+                    {isRecording && <InputLevelMeter level={isPaused ? 0 : inputLevel} className="ml-1" />}
+                </div>
 
-              <div className="flex items-center gap-6">
-                  <button onClick={handleSquareClick} className="w-12 h-12 rounded-full border-2 border-gray-100 text-gray-400 hover:text-red-500 transition-all flex items-center justify-center">
-                      <RotateCcw size={20} />
-                  </button>
+                {activePrompt !== null && (
+                    <p className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 text-sm italic rounded-xl"><Volume2 size={16} className="shrink-0 not-italic" />{activePrompt}…</p>
+                )}
 
-                  <button 
-                      onClick={isRecording && !isPaused ? pauseRecording : startRecording}
-                      className={`w-20 h-20 rounded-full text-white shadow-2xl flex items-center justify-center transition-all ring-8 ${
-                          isRecording && !isPaused ? 'bg-amber-500 ring-amber-50' : 'bg-primary-600 ring-primary-50'
-                      }`}
-                  >
-                      {isRecording && !isPaused ? <Pause size={36} fill="white" /> : <Mic size={36} fill="white" />}
-                  </button>
+                <div className="flex items-center gap-6">
+                    <button onClick={handleSquareClick} aria-label="Discard and start over" aria-keyshortcuts={shortcutLabel('retake')} className="w-12 h-12 rounded-full border-2 border-gray-100 text-gray-400 hover:text-red-500 transition-all flex items-center justify-center">
+                        <RotateCcw size={20} />
+                    </button>
 
-                  <button 
-                      onClick={stopRecording}
-                      disabled={!isRecording && recordingSeconds === 0}
-                      className={`w-14 h-14 rounded-full border-2 transition-all flex items-center justify-center ${
-                          isRecording || recordingSeconds > 0 
-                              ? 'border-green-100 text-green-600 bg-green-50 shadow-sm' 
-                              : 'border-gray-100 text-gray-200 cursor-not-allowed'
-                      }`}
-                  >
-                      <Check size={28} strokeWidth={3} />
-                  </button>
-              </div>
-              
-              <span className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] mb-2">
-                  {isRecording ? (isPaused ? "RESUME RECORDING" : "TAP TO PAUSE OR FINISH") : "TAP MIC TO START"}
-              </span>
-          </div>
+                    <button 
+                        onClick={isRecording && !isPaused ? pauseRecording : startRecording}
+                        disabled={activePrompt !== null}
+                        aria-label={isRecording ? (isPaused ? "Resume recording" : "Pause recording") : "Start recording"}
+                        aria-keyshortcuts={shortcutLabel('record')}
+                        className={`w-20 h-20 rounded-full text-white shadow-2xl flex items-center justify-center transition-all ring-8 ${
+                            isRecording && !isPaused ? 'bg-amber-500 ring-amber-50' : 'bg-primary-600 ring-primary-50'
+                        }`}
+                    >
+                        {isRecording && !isPaused ? <Pause size={36} fill="white" /> : <Mic size={36} fill="white" />}
+                    </button>
+
+                    <button 
+                        onClick={stopRecording}
+                        disabled={!isRecording && recordingSeconds === 0}
+                        aria-label="Finish recital"
+                        aria-keyshortcuts={shortcutLabel('finish')}
+                        className={`w-14 h-14 rounded-full border-2 transition-all flex items-center justify-center ${
+                            isRecording || recordingSeconds > 0 
+                                ? 'border-green-100 text-green-600 bg-green-50 shadow-sm' 
+                                : 'border-gray-100 text-gray-200 cursor-not-allowed'
+                        }`}
+                    >
+                        <Check size={28} strokeWidth={3} />
+                    </button>
+                </div>
+                
+                <span className="text-[10px] font-black text-content-muted uppercase tracking-[0.2em] mb-2">
+                    {isRecording ? (isPaused ? "RESUME RECORDING" : "TAP TO PAUSE OR FINISH") : "TAP MIC TO START"}
+                </span>
+                {promptSettings.timing !== 'off' && promptingSupported && (
+                    <button onClick={givePrompt} disabled={activePrompt !== null} className="-mt-4 px-4 py-1.5 rounded-full bg-indigo-50 text-indigo-600 text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 disabled:opacity-50">
+                        <Volume2 size={14} /> Prompt me{promptCount > 0 ? ` • ${promptCount} used` : ''}
+                    </button>
+                )}
+                <p className="hidden sm:block text-[10px] text-content-muted">
+                    {SHORTCUTS.filter(sc => sc.action !== 'nextEdit' && (sc.action !== 'prompt' || (promptSettings.timing !== 'off' && promptingSupported))).map(sc => `${sc.label} ${sc.description.toLowerCase()}`).join(' • ')}
+                </p>
+            </div>
+          )}
         </div>
       );
     }
@@ -525,39 +1282,58 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
     }
 
     if (step === 'correction') {
-      const accuracy = Math.round((reviewItems.filter(i => isMatch(i.original, i.spoken)).length / reviewItems.length) * 100);
+      const counts = reviewItems.reduce((acc, i) => ({ ...acc, [i.status]: acc[i.status] + 1 }), { correct: 0, close: 0, substituted: 0, omitted: 0, inserted: 0 } as Record<WordStatus, number>);
+      const preview = scoreReview(reviewItems, 0, scoreOptionsFor(chunks[currentChunkIdx], { prompts: promptCount }));
+      const accuracy = preview.accuracy;
       return (
         <div className="flex flex-col h-full bg-canvas">
           <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center justify-between z-20">
             <div className="flex items-center gap-4">
                <div className="flex items-center gap-2">
                   <div className={`text-xl font-black ${accuracy >= 80 ? 'text-green-600' : 'text-primary-600'}`}>{accuracy}%</div>
-                  <span className="text-[10px] font-black text-content-muted uppercase tracking-widest">Accuracy</span>
+                  <span className="text-[10px] font-black text-content-muted uppercase tracking-widest">{gradingMode === 'gist' ? 'Gist' : 'Accuracy'}</span>
+                  {preview.rawAccuracy !== accuracy && <span className="text-[10px] font-bold text-content-muted">{preview.rawAccuracy}% raw</span>}
                </div>
             </div>
+            <div className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest">
+               <span className="text-lime-600">{counts.close} Close</span>
+               <span className="text-red-500">{counts.substituted} Wrong</span>
+               <span className="text-amber-500">{counts.omitted} Skipped</span>
+               <span className="text-blue-500">{counts.inserted} Extra</span>
+            </div>
           </div>
 
           <div className="flex-1 overflow-y-auto p-4 space-y-3 pb-40">
+            {currentRecording && <WaveformPlayer blob={currentRecording} seek={seekRequest} />}
             {reviewItems.map((item, i) => {
-              const matches = isMatch(item.original, item.spoken);
-              const isMissed = item.spoken === "...";
+              const matches = item.status === 'correct';
+              const isMissed = item.status === 'omitted';
+              const isInserted = item.status === 'inserted';
+              const isClose = item.status === 'close';
+              const spokenColor = matches ? 'text-green-600' : isClose ? 'text-lime-600' : isInserted ? 'text-blue-500' : isMissed ? 'text-amber-500' : 'text-red-500';
+              const borderColor = matches || isClose ? 'border-gray-100' : isInserted ? 'border-blue-100 shadow-sm' : isMissed ? 'border-amber-100 shadow-sm' : 'border-red-100 shadow-sm';
+              const statusLabel = matches ? 'correct' : isClose ? 'close match' : isInserted ? 'extra word' : isMissed ? 'skipped' : 'wrong';
               return (
-                <div key={i} id={`edit-item-${i}`} className={`flex items-center gap-3 p-3 rounded-xl border bg-white transition-all ${matches ? 'border-gray-100' : 'border-red-100 shadow-sm'}`}>
+                <div key={i} id={`edit-item-${i}`} className={`flex items-center gap-3 p-3 rounded-xl border bg-white transition-all ${borderColor}`}>
                   <span className="text-[10px] font-mono text-content-muted w-4 shrink-0">{i + 1}.</span>
                   <div className="flex-1 min-w-0 grid grid-cols-2 items-center">
-                      <span className="text-sm font-semibold text-content truncate">{item.original}</span>
+                      {isInserted
+                        ? <span className="text-[9px] font-black text-blue-500 uppercase tracking-widest">Extra word</span>
+                        : <button onClick={() => currentRecording && item.start !== undefined && setSeekRequest({ time: item.start, nonce: Date.now() })} className="text-sm font-semibold text-content truncate text-left hover:text-primary-600">{item.original}</button>}
                       <div className="flex items-center gap-2 justify-end">
                           <ChevronRight size={14} className="text-gray-300" />
                           {item.editing ? (
-                              <input autoFocus className="w-full max-w-[120px] p-1.5 text-sm border border-primary-500 outline-none rounded-md" defaultValue={item.spoken === "..." ? "" : item.spoken} onBlur={(e) => updateReviewWord(i, e.target.value)} onKeyDown={(e) => e.key === 'Enter' && updateReviewWord(i, e.currentTarget.value)} />
+                              <input autoFocus aria-label={`What you said for "${item.original}"`} className="w-full max-w-[120px] p-1.5 text-sm border border-primary-500 outline-none rounded-md" defaultValue={item.spoken === "..." ? "" : item.spoken} onBlur={(e) => updateReviewWord(i, e.target.value)} onKeyDown={(e) => e.key === 'Enter' && updateReviewWord(i, e.currentTarget.value)} />
                           ) : (
-                              <span className={`text-sm font-bold truncate ${matches ? 'text-green-600' : 'text-red-500'}`}>{isMissed ? '...' : item.spoken}</span>
+                              <span className={`text-sm font-bold truncate ${spokenColor}`}>{isMissed ? 'skipped' : item.spoken}{!isMissed && !isInserted && <span className="sr-only">, {statusLabel}</span>}</span>
                           )}
                       </div>
                   </div>
                   <div className="flex items-center gap-1">
-                      {!matches && <button onClick={() => toggleEditWord(i)} className="p-2 text-primary-500 hover:bg-primary-50 rounded-lg"><Edit2 size={16} /></button>}
-                      {matches && <div className="p-2 text-green-600"><CheckCircle2 size={16} /></div>}
+                      {isInserted && <button onClick={() => dismissInsertedWord(i)} aria-label={`Remove extra word "${item.spoken}"`} className="p-2 text-blue-400 hover:bg-blue-50 rounded-lg"><Trash2 size={16} /></button>}
+                      {!matches && !isClose && !isInserted && <button onClick={() => toggleEditWord(i)} aria-label={`Correct "${item.original}"`} aria-keyshortcuts={shortcutLabel('nextEdit')} className="p-2 text-primary-500 hover:bg-primary-50 rounded-lg"><Edit2 size={16} /></button>}
+                      {matches && <div className="p-2 text-green-600" aria-hidden="true"><CheckCircle2 size={16} /></div>}
+                      {isClose && <button onClick={() => toggleEditWord(i)} aria-label={`Correct "${item.original}", close match with partial credit`} className="p-2 text-lime-600 hover:bg-lime-50 rounded-lg" title="Close match — partial credit"><Edit2 size={16} /></button>}
                   </div>
                 </div>
               );
@@ -565,10 +1341,10 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
           </div>
 
           <div className="bg-card border-t border-gray-100 p-6 shrink-0 z-20 flex gap-3 shadow-2xl">
-              <button onClick={retakeChunk} className="px-6 rounded-xl border-2 border-gray-100 text-gray-500 font-bold flex items-center gap-2">
+              <button onClick={retakeChunk} aria-keyshortcuts={shortcutLabel('retake')} className="px-6 rounded-xl border-2 border-gray-100 text-gray-500 font-bold flex items-center gap-2">
                   <RefreshCw size={18} /> RETAKE
               </button>
-              <Button onClick={handleFinishChunk} className="flex-1 py-4 text-lg font-black rounded-xl">
+              <Button onClick={handleFinishChunk} aria-keyshortcuts={shortcutLabel('finish')} className="flex-1 py-4 text-lg font-black rounded-xl">
                   {currentChunkIdx < chunks.length - 1 ? 'NEXT' : 'FINISH'}
               </Button>
           </div>
@@ -576,24 +1352,66 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
       );
     }
 
+    if (step === 'results' && awaitingPending) {
+      const queuedCount = pending.filter(p => p.sessionId === sessionId).length;
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 bg-canvas text-center">
+          <Card className="w-full max-w-md p-8 space-y-4 shadow-sm">
+            <CloudOff size={36} className="mx-auto text-amber-500" />
+            <h2 className="text-xl font-black text-content tracking-tight">Waiting to Score {queuedCount} {queuedCount === 1 ? 'Paragraph' : 'Paragraphs'}</h2>
+            <p className="text-sm text-content-muted leading-relaxed">Your recordings are safe on this device. Results appear here as soon as the transcription service can be reached, even if you leave and come back later.</p>
+            <Button onClick={() => queueRunnerRef.current?.kick(true)} className="w-full py-3 font-bold rounded-xl flex items-center justify-center gap-2">
+              <RefreshCw size={16} /> RETRY NOW
+            </Button>
+            <button onClick={abandonSession} className="w-full py-2 text-[10px] font-black uppercase tracking-widest text-content-muted flex items-center justify-center gap-1"><Trash2 size={14} /> Abandon Session</button>
+          </Card>
+        </div>
+      );
+    }
+
     if (step === 'results') {
       const totalMastered = sessionResults.filter(r => r.accuracy >= 90).length;
-      const missedWordSet = new Set<string>();
-      sessionResults.forEach(r => r.missedWords.forEach(w => missedWordSet.add(w.toLowerCase())));
-      const uniqueMissed = Array.from(missedWordSet).slice(0, 10);
+      // Rank by every attempt on record, not just this session, so long-term weak spots surface first.
+      const pastAttempts = history.filter(a => a.sessionId !== sessionId);
+      const uniqueMissed = mostMissedWords([...pastAttempts, ...sessionResults], 10).map(m => m.word);
+      const timedResults = sessionResults.filter(r => r.fluency && r.duration > 0);
+      const avgWpm = timedResults.length > 0 ? Math.round(timedResults.reduce((a, r) => a + (r.fluency?.wordsPerMinute ?? 0), 0) / timedResults.length) : 0;
+      const totalPauses = sessionResults.reduce((a, r) => a + (r.fluency?.pauseCount ?? 0), 0);
+      const hesitations = sessionResults.flatMap(r => r.fluency?.hesitations ?? []).sort((a, b) => b.pause - a.pause).slice(0, 10);
+      const weakLines = weakestLines(sessionResults.flatMap(r => r.lineResults ?? []));
+      const totalSubstituted = sessionResults.reduce((a, r) => a + r.substitutedWords.length, 0);
+      const totalOmitted = sessionResults.reduce((a, r) => a + r.omittedWords.length, 0);
+      const totalInserted = sessionResults.reduce((a, r) => a + r.insertedWords.length, 0);
+      const totalReordered = sessionResults.reduce((a, r) => a + (r.reorderedWords?.length ?? 0), 0);
+      const typedCount = sessionResults.filter(r => r.inputMode === 'typing').length;
+      const totalPrompts = sessionResults.reduce((a, r) => a + (r.prompts ?? 0), 0);
+      const assignmentReport = assignment ? buildReport({ memorizationId: data.id, title: data.title, attempts: history, segments, assignment }) : null;
       return (
         <div className="flex-1 flex flex-col overflow-y-auto p-6 bg-canvas pb-20">
            <div className="w-full max-w-2xl mx-auto space-y-6">
-              <div className="text-center"><h2 className="text-2xl font-black text-content tracking-tight mb-6">Session Results</h2></div>
+              <div className="text-center">
+                <h2 className="text-2xl font-black text-content tracking-tight mb-6">Session Results</h2>
+                {typedCount > 0 && (
+                  <span className="inline-flex items-center gap-1.5 -mt-4 px-3 py-1 bg-gray-100 text-content-muted text-[10px] font-black uppercase tracking-widest rounded-full">
+                    <Keyboard size={12} /> {typedCount === sessionResults.length ? 'Typed' : `${typedCount} of ${sessionResults.length} typed`}
+                  </span>
+                )}
+                {totalPrompts > 0 && (
+                  <span className="inline-flex items-center gap-1.5 -mt-4 ml-2 px-3 py-1 bg-indigo-50 text-indigo-600 text-[10px] font-black uppercase tracking-widest rounded-full">
+                    <Volume2 size={12} /> {totalPrompts} {totalPrompts === 1 ? 'prompt' : 'prompts'}
+                  </span>
+                )}
+              </div>
               <div className="space-y-4">
-                 {levelSummaries[level].completed && (
-                     <Card className="p-5 border-indigo-100 bg-white shadow-sm">
+                 {Object.entries(levelSummaries).filter(([, summary]) => summary.completed).map(([lvl, summary]) => (
+                     <Card key={lvl} className="p-5 border-indigo-100 bg-white shadow-sm">
                         <div>
-                            <h3 className="text-lg font-bold text-indigo-800">Recital Mastered</h3>
-                            <div className="text-3xl font-black text-primary-600 my-2">{levelSummaries[level].accuracy}% <span className="text-sm font-bold text-content-muted">Avg Accuracy</span></div>
+                            <h3 className="text-lg font-bold text-indigo-800">Level {lvl} • {levelDefinition(Number(lvl)).name}</h3>
+                            <div className="text-3xl font-black text-primary-600 my-2">{summary.accuracy}% <span className="text-sm font-bold text-content-muted">Weighted</span></div>
+                            {summary.rawAccuracy !== undefined && <div className="text-xs font-bold text-content-muted">{summary.rawAccuracy}% of words recalled</div>}
                         </div>
                      </Card>
-                 )}
+                 ))}
               </div>
               <Card className="p-6 space-y-6 shadow-sm">
                   <div className="border-b border-gray-100 pb-4">
@@ -603,38 +1421,131 @@ export const SpeakGame: React.FC<GameProps> = ({ data, onComplete, guideOpen, on
                               <div className="p-2 bg-green-50 text-green-600 rounded-lg"><CheckCircle2 size={20} /></div>
                               <div><span className="block text-xl font-bold">{totalMastered}/{chunks.length}</span><span className="text-[10px] font-bold text-green-600 uppercase">Paras Done</span></div>
                           </div>
+                          <div className="flex items-center gap-3">
+                              <div className="p-2 bg-red-50 text-red-500 rounded-lg"><AlertCircle size={20} /></div>
+                              <div className="text-[10px] font-bold uppercase space-y-0.5">
+                                  <span className="block text-red-500">{totalSubstituted} Wrong</span>
+                                  <span className="block text-amber-500">{totalOmitted} Skipped</span>
+                                  <span className="block text-blue-500">{totalInserted} Extra</span>
+                                  {totalReordered > 0 && <span className="block text-indigo-500">{totalReordered} Out of Order</span>}
+                              </div>
+                          </div>
                       </div>
                   </div>
-                  {uniqueMissed.length > 0 && (<div className="space-y-3"><h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em]">Words to Review</h3><div className="flex flex-wrap gap-2">{uniqueMissed.map(w => (<span key={w} className="px-3 py-1 bg-red-50 text-red-700 text-[10px] font-bold rounded-full border border-red-100 capitalize">{w}</span>))}</div></div>)}
+                  {timedResults.length > 0 && (
+                      <div className="space-y-3 border-b border-gray-100 pb-4">
+                          <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><Activity size={14} /> Fluency</h3>
+                          <div className="grid grid-cols-2 gap-6">
+                              <div><span className="block text-xl font-bold">{avgWpm}</span><span className="text-[10px] font-bold text-primary-600 uppercase">Words / Min</span></div>
+                              <div><span className="block text-xl font-bold">{totalPauses}</span><span className="text-[10px] font-bold text-amber-500 uppercase">Pauses</span></div>
+                          </div>
+                          {hesitations.length > 0 && (
+                              <div className="space-y-2">
+                                  <span className="block text-[10px] font-bold text-content-muted uppercase">Hesitated Before</span>
+                                  <div className="flex flex-wrap gap-2">
+                                      {hesitations.map((h, i) => (
+                                          <span key={i} className="px-3 py-1 bg-amber-50 text-amber-700 text-[10px] font-bold rounded-full border border-amber-100 capitalize">{h.word} <span className="opacity-60">{h.pause}s</span></span>
+                                      ))}
+                                  </div>
+                              </div>
+                          )}
+                      </div>
+                  )}
+                  {weakLines.length > 0 && (
+                      <div className="space-y-3 border-b border-gray-100 pb-4">
+                          <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em]">Weakest Lines</h3>
+                          {weakLines.map(l => (
+                              <div key={l.lineIndex} className="flex items-center gap-3 text-sm">
+                                  <span className="text-[10px] font-mono text-content-muted w-6 shrink-0">{l.lineIndex + 1}.</span>
+                                  <span className="flex-1 min-w-0 truncate italic text-content">{l.text}</span>
+                                  <span className={`font-bold shrink-0 ${l.accuracy >= 70 ? 'text-amber-500' : 'text-red-500'}`}>{l.accuracy}%</span>
+                              </div>
+                          ))}
+                      </div>
+                  )}
+                  {sessionResults.some(r => r.recordingKey && sessionRecordings[r.recordingKey]) && (
+                      <div className="space-y-3 border-b border-gray-100 pb-4">
+                          <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em]">Recordings</h3>
+                          {sessionResults.filter(r => r.recordingKey && sessionRecordings[r.recordingKey]).map(r => (
+                              <div key={r.recordingKey} className="space-y-1">
+                                  <span className="text-[10px] font-bold text-content-muted uppercase">{segments[r.segmentIndex]?.name ?? `Paragraph ${r.index + 1}`} • {r.accuracy}%</span>
+                                  <WaveformPlayer blob={sessionRecordings[r.recordingKey!]} />
+                              </div>
+                          ))}
+                      </div>
+                  )}
+                  {uniqueMissed.length > 0 && (<div className="space-y-3"><h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em]">Words to Review</h3><div className="flex flex-wrap gap-2">{uniqueMissed.map(w => (<span key={w} className="px-3 py-1 bg-red-50 text-red-700 text-[10px] font-bold rounded-full border border-red-100 capitalize">{w}</span>))}</div><button onClick={() => startDrill(uniqueMissed)} className="w-full py-3 font-black uppercase text-xs tracking-widest rounded-xl text-red-700 bg-red-50 flex items-center justify-center gap-2"><Target size={14} /> DRILL THESE</button></div>)}
+              </Card>
+              <Card className="p-5 space-y-3 shadow-sm">
+                  <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><ClipboardList size={14} /> Report</h3>
+                  {assignmentReport && (
+                      <p className={`text-sm font-bold ${assignmentReport.targetMet ? 'text-green-600' : 'text-amber-600'}`}>
+                          {assignmentReport.targetMet
+                            ? `Assignment complete: every paragraph at ${assignment!.targetAccuracy}% or better.`
+                            : `${assignmentReport.paragraphs.filter(p => p.targetMet).length} of ${segments.length} paragraphs at the ${assignment!.targetAccuracy}% target (level ${assignment!.requiredLevel}+).`}
+                      </p>
+                  )}
+                  <ReportExportButtons onExport={exportReport} />
               </Card>
+              <button onClick={() => dispatch({ type: 'showView', view: 'history' })} className="w-full py-3 font-black uppercase text-xs tracking-widest rounded-xl text-primary-600 bg-primary-50 flex items-center justify-center gap-2"><Activity size={14} /> VIEW HISTORY</button>
               <div className="grid grid-cols-2 gap-4 pt-4">
-                  <button onClick={() => setStep('setup')} className="py-4 font-black uppercase text-xs tracking-widest border-2 rounded-xl text-content-muted flex items-center justify-center gap-2"><RotateCcw size={14} /> RETAKE</button>
+                  <button onClick={() => dispatch({ type: 'leave' })} className="py-4 font-black uppercase text-xs tracking-widest border-2 rounded-xl text-content-muted flex items-center justify-center gap-2"><RotateCcw size={14} /> RETAKE</button>
                   <Button onClick={() => navigate(`/game/${data.id}`)} className="py-4 font-black uppercase text-xs tracking-widest shadow-xl rounded-xl">FINISH</Button>
               </div>
            </div>
         </div>
       );
     }
+    if (step === 'history') {
+      return <SpeakHistory memorizationId={data.id} attempts={history} segments={segments} structureAttempts={structureAttempts} onBack={() => dispatch({ type: 'closeView' })} />;
+    }
+    if (step === 'class') {
+      return <ClassReport title={data.title} onBack={() => dispatch({ type: 'closeView' })} />;
+    }
+    if (step === 'structure') {
+      return (
+        <StructureDrill
+          segments={segments}
+          segmentIndices={structureSegments}
+          sentenceEnd={language.sentenceEnd}
+          matchWords={matchWords}
+          speechLocale={language.locale}
+          lastAttempt={structureAttempts[structureAttempts.length - 1]}
+          onComplete={recordStructureResult}
+          onBack={() => dispatch({ type: 'closeView' })}
+        />
+      );
+    }
+    if (step === 'import') {
+      return <CorpusImport onImport={importTexts} onBack={() => dispatch({ type: 'closeView' })} />;
+    }
+    if (step === 'drill') {
+      return <DrillMode items={drillItems} matchWords={matchWords} speechLocale={language.locale} onAnswer={answerDrill} onBack={() => { setDrillItems(loadDrillList(data.id)); dispatch({ type: 'closeView' }); }} />;
+    }
     return null;
   };
 
   return (
     <div className="flex flex-col h-full bg-canvas overflow-hidden">
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
       {renderContent()}
 
-      <Modal isOpen={showMicError} onClose={() => setShowMicError(false)} title="Microphone Error">
+      <Modal isOpen={micError !== null} onClose={() => setMicError(null)} title="Microphone Error">
         <div className="flex flex-col items-center text-center p-2 space-y-5">
            <div className="w-16 h-16 bg-red-50 text-red-500 rounded-full flex items-center justify-center shadow-inner">
               <MicOff size={32} />
            </div>
+           {micError && (
            <div>
-              <h3 className="text-xl font-bold text-slate-800">Microphone Access Required</h3>
-              <p className="text-sm text-slate-500 mt-2 leading-relaxed">
-                Recallix needs microphone access to verify your recital. Please enable it in your browser settings and try again.
-              </p>
+              <h3 className="text-xl font-bold text-slate-800">{MIC_ERROR_MESSAGES[micError].title}</h3>
+              <p className="text-sm text-slate-500 mt-2 leading-relaxed">{MIC_ERROR_MESSAGES[micError].message}</p>
            </div>
-           <Button onClick={() => setShowMicError(false)} className="w-full py-3 font-bold">
-              I've Enabled It
+           )}
+           {(micError === 'no-device' || micError === 'busy' || micError === 'unknown') && (
+              <div className="w-full text-left"><MicrophoneSettings deviceId={micDeviceId} onDeviceChange={changeMicDevice} /></div>
+           )}
+           <Button onClick={() => { setMicError(null); startRecording(); }} className="w-full py-3 font-bold">
+              {micError === 'denied' ? "I've Enabled It" : "Try Again"}
            </Button>
         </div>
       </Modal>
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '../Layout';
+import { ChevronLeft, TrendingUp, Timer, AlertCircle, Activity, ListOrdered, Mic, Play, Trash2 } from 'lucide-react';
+import { mostMissedWords, RecitalAttempt, segmentAccuracyTrend, SessionSummary, summarizeSessions } from './speak/history';
+import { TextSegment } from './speak/types';
+import { resolveSegmentKeys, StructureAttempt } from './speak/structure';
+import { deleteRecordings, getRecording, RECORDING_MAX_AGE_DAYS } from './speak/recordings';
+import { segmentKey } from './speak/segmentation';
+import { WaveformPlayer } from './WaveformPlayer';
+
+interface SpeakHistoryProps {
+    memorizationId: string;
+    attempts: RecitalAttempt[];
+    segments: TextSegment[];
+    structureAttempts?: StructureAttempt[];
+    onBack: () => void;
+}
+
+/** How many of the latest recorded recitals the history offers to play back. */
+const RECENT_RECORDINGS = 8;
+
+const LEVEL_COLORS: Record<number, string> = { 1: '#94a3b8', 2: '#22c55e', 3: '#6366f1', 4: '#ec4899', 5: '#f59e0b' };
+
+const Sparkline: React.FC<{ points: number[]; max: number; color: string }> = ({ points, max, color }) => {
+  if (points.length === 0) return null;
+  const width = 280;
+  const height = 60;
+  const step = points.length > 1 ? width / (points.length - 1) : 0;
+  const coords = points.map((p, i) => `${i * step},${height - (p / Math.max(max, 1)) * height}`).join(' ');
+  return (
+    <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-16">
+      <polyline points={coords} fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round" strokeLinecap="round" />
+      {points.map((p, i) => <circle key={i} cx={i * step} cy={height - (p / Math.max(max, 1)) * height} r={3} fill={color} />)}
+    </svg>
+  );
+};
+
+export const SpeakHistory: React.FC<SpeakHistoryProps> = ({ memorizationId, attempts, segments, structureAttempts = [], onBack }) => {
+  const [playing, setPlaying] = useState<{ key: string; blob: Blob | null } | null>(null);
+  const [recordingsNote, setRecordingsNote] = useState("");
+  const sessions = useMemo(() => summarizeSessions(attempts), [attempts]);
+  const recorded = useMemo(() => attempts.filter(a => a.recordingKey && a.inputMode !== 'typing').slice(-RECENT_RECORDINGS).reverse(), [attempts]);
+  const nameByKey = useMemo(() => new Map(segments.map(segment => [segmentKey(segment.text), segment.name])), [segments]);
+  const missed = useMemo(() => mostMissedWords(attempts, 15), [attempts]);
+  const segmentTrend = useMemo(() => segmentAccuracyTrend(attempts, segments), [attempts, segments]);
+  const levels = Array.from(new Set(sessions.map(s => s.level))).sort();
+  const byLevel = (lvl: number): SessionSummary[] => sessions.filter(s => s.level === lvl);
+  const maxPace = Math.max(...sessions.map(s => s.secondsPerParagraph), 1);
+
+  const play = async (key: string) => {
+    if (playing?.key === key) {
+      setPlaying(null);
+      return;
+    }
+    const recording = await getRecording(key).catch(() => null);
+    setPlaying({ key, blob: recording?.blob ?? null });
+  };
+
+  const clearRecordings = async () => {
+    const deleted = await deleteRecordings(memorizationId).catch(() => 0);
+    setPlaying(null);
+    setRecordingsNote(deleted === 0 ? 'No saved recordings to delete.' : `${deleted} saved ${deleted === 1 ? 'recording' : 'recordings'} deleted.`);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-canvas">
+      <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center z-10">
+        <button onClick={onBack} aria-label="Back" className="p-1.5 -ml-1 text-content"><ChevronLeft size={22} /></button>
+        <h2 className="ml-3 text-lg font-bold text-content">Recital History</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-20">
+        {attempts.length === 0 && structureAttempts.length === 0 && (
+          <p className="text-sm text-content-muted text-center py-10">No recitals yet. Finish a session to start tracking progress.</p>
+        )}
+
+        {levels.length > 0 && (
+          <Card className="p-5 space-y-4 shadow-sm">
+            <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><TrendingUp size={14} /> Accuracy by Level</h3>
+            {levels.map(lvl => {
+              const points = byLevel(lvl);
+              const latest = points[points.length - 1];
+              return (
+                <div key={lvl}>
+                  <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                    <span style={{ color: LEVEL_COLORS[lvl] || '#64748b' }}>Level {lvl}</span>
+                    <span className="text-content-muted">{latest.accuracy}% latest • {points.length} sessions</span>
+                  </div>
+                  <Sparkline points={points.map(p => p.accuracy)} max={100} color={LEVEL_COLORS[lvl] || '#64748b'} />
+                </div>
+              );
+            })}
+          </Card>
+        )}
+
+        {structureAttempts.length > 0 && (() => {
+          const latest = structureAttempts[structureAttempts.length - 1];
+          const misplaced = resolveSegmentKeys(latest.misplaced, segments);
+          return (
+            <Card className="p-5 space-y-3 shadow-sm">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><ListOrdered size={14} /> Structure</h3>
+                <span className="text-[10px] font-black text-content-muted uppercase tracking-widest">{latest.orderAccuracy}% order • {latest.accuracy}% overall</span>
+              </div>
+              <Sparkline points={structureAttempts.map(a => a.accuracy)} max={100} color="#0ea5e9" />
+              {misplaced.length > 0 && (
+                <p className="text-[10px] text-content-muted">Last out of place: {misplaced.map(i => segments[i].name).join(', ')}</p>
+              )}
+            </Card>
+          );
+        })()}
+
+        {sessions.length > 0 && (
+          <Card className="p-5 space-y-3 shadow-sm">
+            <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><Timer size={14} /> Time per Paragraph</h3>
+            <div className="flex items-end gap-1 h-24">
+              {sessions.map(s => (
+                <div key={`${s.sessionId}:${s.level}`} className="flex-1 rounded-t" title={`${new Date(s.recordedAt).toLocaleDateString()} • ${s.secondsPerParagraph}s`}
+                  style={{ height: `${(s.secondsPerParagraph / maxPace) * 100}%`, backgroundColor: LEVEL_COLORS[s.level] || '#64748b' }} />
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {Object.keys(segmentTrend).length > 0 && (
+          <Card className="p-5 space-y-3 shadow-sm">
+            <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><Activity size={14} /> Paragraphs</h3>
+            {Object.entries(segmentTrend).map(([idx, scores]) => {
+              const last = scores[scores.length - 1];
+              const delta = scores.length > 1 ? last - scores[scores.length - 2] : 0;
+              return (
+                <div key={idx} className="flex items-center justify-between text-sm">
+                  <span className="font-semibold text-content truncate">{segments[Number(idx)]?.name ?? `Paragraph ${Number(idx) + 1}`}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className={`text-[10px] font-black ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-500' : 'text-content-muted'}`}>{delta > 0 ? `+${delta}` : delta < 0 ? delta : '±0'}</span>
+                    <span className={`font-bold ${last >= 90 ? 'text-green-600' : 'text-primary-600'}`}>{last}%</span>
+                  </span>
+                </div>
+              );
+            })}
+          </Card>
+        )}
+
+        {recorded.length > 0 && (
+          <Card className="p-5 space-y-3 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><Mic size={14} /> Recordings</h3>
+              <button onClick={clearRecordings} className="text-[10px] font-black text-content-muted uppercase tracking-widest flex items-center gap-1"><Trash2 size={12} /> Delete Saved</button>
+            </div>
+            {recorded.map(a => (
+              <div key={a.id ?? a.recordingKey} className="space-y-2">
+                <button onClick={() => play(a.recordingKey!)} aria-pressed={playing?.key === a.recordingKey} className="w-full flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2 font-semibold text-content truncate"><Play size={14} className="text-primary-600 shrink-0" /> {nameByKey.get(segmentKey(a.expected)) ?? 'Earlier paragraph'}</span>
+                  <span className="text-[10px] font-bold text-content-muted shrink-0">{new Date(a.recordedAt).toLocaleDateString()} • {a.accuracy}%</span>
+                </button>
+                {playing && playing.key === a.recordingKey && (playing.blob
+                  ? <WaveformPlayer blob={playing.blob} />
+                  : <p className="text-[10px] text-content-muted">This recording wasn't kept on this device.</p>)}
+              </div>
+            ))}
+            <p role="status" className="text-[10px] text-content-muted">{recordingsNote || `Saved recordings are deleted after ${RECORDING_MAX_AGE_DAYS} days.`}</p>
+          </Card>
+        )}
+
+        {missed.length > 0 && (
+          <Card className="p-5 space-y-3 shadow-sm">
+            <h3 className="text-xs font-black text-content-muted uppercase tracking-[0.2em] flex items-center gap-2"><AlertCircle size={14} /> Most Missed Words</h3>
+            <div className="flex flex-wrap gap-2">
+              {missed.map(m => (
+                <span key={m.word} className="px-3 py-1 bg-red-50 text-red-700 text-[10px] font-bold rounded-full border border-red-100 capitalize">{m.word} <span className="opacity-60">×{m.count}</span></span>
+              ))}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakHistory;
@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, Button } from '../Layout';
+import { ArrowRight, Check, CheckCircle2, ChevronLeft, ListOrdered, Mic, RotateCcw, Square, X } from 'lucide-react';
+import { TextSegment } from './speak/types';
+import { closingLine, openingLine, segmentKey } from './speak/segmentation';
+import { combinedAccuracy, scoreOrdering, shuffleSegments, StructureAttempt, TransitionResult } from './speak/structure';
+import { buildReviewItems, scoreReview } from './speak/scoring';
+import { WordMatchFn } from './speak/matching';
+import { createLiveRecognizer, isLiveRecognitionSupported, LiveRecognizer } from './speak/liveRecognition';
+
+export type StructureResult = Omit<StructureAttempt, 'id' | 'memorizationId' | 'recordedAt'>;
+
+interface StructureDrillProps {
+    segments: TextSegment[];
+    /** Which segments to drill, in text order. */
+    segmentIndices: number[];
+    sentenceEnd: RegExp;
+    matchWords: WordMatchFn;
+    speechLocale: string;
+    lastAttempt?: StructureAttempt;
+    onComplete: (result: StructureResult) => void;
+    onBack: () => void;
+}
+
+type Phase = 'order' | 'checked' | 'transitions' | 'done';
+
+const words = (text: string) => text.split(/\s+/).filter(w => w.length > 0);
+
+/** Reassemble the text from shuffled openings, then recall how each segment begins from how the one before ends. */
+export const StructureDrill: React.FC<StructureDrillProps> = ({ segments, segmentIndices, sentenceEnd, matchWords, speechLocale, lastAttempt, onComplete, onBack }) => {
+  const [pool, setPool] = useState(() => shuffleSegments(segmentIndices));
+  const [answer, setAnswer] = useState<number[]>([]);
+  const [phase, setPhase] = useState<Phase>('order');
+  const [transitions, setTransitions] = useState<TransitionResult[]>([]);
+  const [response, setResponse] = useState("");
+  const [listening, setListening] = useState(false);
+  const [revealed, setRevealed] = useState<TransitionResult | null>(null);
+  const recognizerRef = useRef<LiveRecognizer | null>(null);
+  const speechSupported = useMemo(() => isLiveRecognitionSupported(), []);
+
+  const opening = (idx: number) => openingLine(segments[idx], sentenceEnd);
+  const ordering = useMemo(() => scoreOrdering(answer), [answer]);
+  // Transition k asks for the opening of the (k + 1)th segment, cued by the close of the kth.
+  const step = transitions.length + 1;
+
+  const place = (idx: number) => { setPool(prev => prev.filter(i => i !== idx)); setAnswer(prev => [...prev, idx]); };
+  const unplace = (idx: number) => { setAnswer(prev => prev.filter(i => i !== idx)); setPool(prev => [...prev, idx]); };
+
+  const keyOf = (idx: number) => segmentKey(segments[idx].text);
+
+  const finish = (results: TransitionResult[]) => {
+    setPhase('done');
+    onComplete({
+      segments: segmentIndices.map(keyOf),
+      answer: answer.map(keyOf),
+      orderAccuracy: ordering.orderAccuracy,
+      misplaced: ordering.misplaced.map(keyOf),
+      transitions: results,
+      accuracy: combinedAccuracy(ordering.orderAccuracy, results)
+    });
+  };
+
+  const continueFromOrder = () => {
+    if (segmentIndices.length < 2) finish([]);
+    else setPhase('transitions');
+  };
+
+  const checkTransition = (spoken: string) => {
+    if (revealed) return;
+    const segmentIndex = segmentIndices[step];
+    const expected = opening(segmentIndex).replace(/…$/, '');
+    const items = buildReviewItems(words(expected), words(spoken), 0, undefined, matchWords);
+    setRevealed({ segmentKey: keyOf(segmentIndex), expected, spoken, accuracy: scoreReview(items, 0, { matchWords }).rawAccuracy ?? 0 });
+  };
+
+  const nextTransition = () => {
+    if (!revealed) return;
+    const results = [...transitions, revealed];
+    setTransitions(results);
+    setRevealed(null);
+    setResponse("");
+    if (results.length >= segmentIndices.length - 1) finish(results);
+  };
+
+  const toggleListening = async () => {
+    if (listening) {
+      const recognizer = recognizerRef.current;
+      recognizerRef.current = null;
+      setListening(false);
+      const heard = recognizer ? await recognizer.stop() : response;
+      setResponse(heard);
+      checkTransition(heard);
+      return;
+    }
+    setResponse("");
+    recognizerRef.current = createLiveRecognizer({ lang: speechLocale, onTranscript: setResponse, onError: (e) => console.error("Structure drill recognition error:", e) });
+    recognizerRef.current.start();
+    setListening(true);
+  };
+
+  const restart = () => {
+    setPool(shuffleSegments(segmentIndices));
+    setAnswer([]);
+    setTransitions([]);
+    setRevealed(null);
+    setResponse("");
+    setPhase('order');
+  };
+
+  const segmentTitle = (idx: number) => segments[idx]?.name ?? `Paragraph ${idx + 1}`;
+
+  return (
+    <div className="flex flex-col h-full bg-canvas">
+      <div className="shrink-0 px-4 py-3 bg-white border-b border-gray-100 flex items-center z-10">
+        <button onClick={() => { recognizerRef.current?.abort(); onBack(); }} aria-label="Back" className="p-1.5 -ml-1 text-content"><ChevronLeft size={22} /></button>
+        <h2 className="ml-3 text-lg font-bold text-content flex-1">Structure Drill</h2>
+        {phase === 'transitions' && <span className="text-[10px] font-bold text-content-muted uppercase">{step} of {segmentIndices.length - 1}</span>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-20">
+        {phase === 'order' && (
+          <>
+            <p className="text-sm text-content-muted px-1">Tap the openings in the order they come in the text.{lastAttempt ? ` Last time: ${lastAttempt.accuracy}%.` : ''}</p>
+            {answer.length > 0 && (
+              <ol className="space-y-2" aria-label="Your order">
+                {answer.map((idx, position) => (
+                  <li key={idx}>
+                    <button onClick={() => unplace(idx)} aria-label={`${position + 1}. ${opening(idx)}. Remove from your order`} className="w-full p-3 bg-primary-50 border border-primary-100 rounded-xl flex items-start gap-3 text-left">
+                      <span className="w-6 h-6 rounded-full bg-primary-600 text-white text-xs font-black flex items-center justify-center shrink-0">{position + 1}</span>
+                      <span className="flex-1 text-sm text-content italic">{opening(idx)}</span>
+                      <X size={14} className="text-content-muted shrink-0 mt-1" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {pool.length > 0 && (
+              <div className="space-y-2" role="group" aria-label="Openings to place">
+                {pool.map(idx => (
+                  <button key={idx} onClick={() => place(idx)} className="w-full p-3 bg-white border border-gray-100 rounded-xl shadow-sm text-left text-sm text-content italic hover:border-primary-300">
+                    {opening(idx)}
+                  </button>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => setPhase('checked')} disabled={pool.length > 0} className="w-full py-3 font-bold rounded-xl flex items-center justify-center gap-2"><Check size={18} strokeWidth={3} /> CHECK ORDER</Button>
+          </>
+        )}
+
+        {phase === 'checked' && (
+          <>
+            <Card className="p-5 text-center shadow-sm">
+              <div className="text-3xl font-black text-primary-600">{ordering.orderAccuracy}%</div>
+              <span className="text-[10px] font-bold text-content-muted uppercase">{ordering.misplaced.length === 0 ? 'Every paragraph in place' : `${ordering.misplaced.length} out of place`}</span>
+            </Card>
+            <ol className="space-y-2">
+              {segmentIndices.map((idx, position) => {
+                const misplaced = ordering.misplaced.includes(idx);
+                return (
+                  <li key={idx} className={`p-3 rounded-xl border flex items-start gap-3 ${misplaced ? 'bg-red-50 border-red-100' : 'bg-white border-gray-100'}`}>
+                    <span className="w-6 h-6 rounded-full bg-gray-100 text-content text-xs font-black flex items-center justify-center shrink-0">{position + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className="block text-[10px] font-bold text-content-muted uppercase">{segmentTitle(idx)}{misplaced ? ` • you had it ${answer.indexOf(idx) + 1}` : ''}</span>
+                      <span className="block text-sm text-content italic">{opening(idx)}</span>
+                    </div>
+                    {misplaced ? <X size={16} className="text-red-500 shrink-0" aria-label="Out of place" /> : <CheckCircle2 size={16} className="text-green-600 shrink-0" aria-label="In place" />}
+                  </li>
+                );
+              })}
+            </ol>
+            <Button onClick={continueFromOrder} className="w-full py-3 font-bold rounded-xl flex items-center justify-center gap-2">
+              {segmentIndices.length < 2 ? 'FINISH' : 'NOW THE TRANSITIONS'} <ArrowRight size={16} />
+            </Button>
+          </>
+        )}
+
+        {phase === 'transitions' && (
+          <>
+            <Card className="p-6 space-y-3 shadow-md">
+              <span className="block text-[10px] font-black text-content-muted uppercase tracking-[0.2em]">{segmentTitle(segmentIndices[step - 1])} ends</span>
+              <p className="text-lg text-content-muted italic">…{closingLine(segments[segmentIndices[step - 1]], sentenceEnd)}</p>
+              <span className="block text-[10px] font-black text-primary-600 uppercase tracking-[0.2em] pt-2">How does the next one begin?</span>
+              {revealed && (
+                <p className={`text-lg font-semibold ${revealed.accuracy >= 80 ? 'text-green-700' : 'text-red-600'}`}>{revealed.expected} <span className="text-sm font-black">{revealed.accuracy}%</span></p>
+              )}
+            </Card>
+            {revealed ? (
+              <Button onClick={nextTransition} autoFocus className="w-full py-3 font-bold rounded-xl flex items-center justify-center gap-2">NEXT <ArrowRight size={16} /></Button>
+            ) : (
+              <div className="flex items-center gap-2">
+                <input
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && response.trim() && checkTransition(response)}
+                  placeholder={speechSupported ? "Type or say the opening line" : "Type the opening line"}
+                  aria-label="Opening line of the next paragraph"
+                  autoFocus
+                  spellCheck={false}
+                  autoComplete="off"
+                  className="flex-1 p-3 text-base border-2 border-gray-100 rounded-xl outline-none focus:border-primary-500"
+                />
+                {speechSupported && (
+                  <button onClick={toggleListening} aria-label={listening ? "Stop and check" : "Say the line"} aria-pressed={listening} className={`w-12 h-12 rounded-full text-white flex items-center justify-center ${listening ? 'bg-amber-500' : 'bg-primary-600'}`}>
+                    {listening ? <Square size={18} fill="white" /> : <Mic size={20} />}
+                  </button>
+                )}
+                <Button onClick={() => checkTransition(response)} disabled={!response.trim() || listening} aria-label="Check" className="px-5 py-3 font-bold rounded-xl"><Check size={18} strokeWidth={3} /></Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {phase === 'done' && (
+          <Card className="p-8 text-center space-y-4 shadow-sm">
+            <ListOrdered size={36} className="mx-auto text-primary-600" />
+            <h3 className="text-3xl font-black text-content">{combinedAccuracy(ordering.orderAccuracy, transitions)}%</h3>
+            <div className="grid grid-cols-2 gap-4 text-left">
+              <div><span className="block text-xl font-bold">{ordering.orderAccuracy}%</span><span className="text-[10px] font-bold text-primary-600 uppercase">Order</span></div>
+              {transitions.length > 0 && (
+                <div><span className="block text-xl font-bold">{Math.round(transitions.reduce((a, t) => a + t.accuracy, 0) / transitions.length)}%</span><span className="text-[10px] font-bold text-primary-600 uppercase">Transitions</span></div>
+              )}
+            </div>
+            <button onClick={restart} className="w-full py-3 font-black uppercase text-xs tracking-widest rounded-xl text-primary-600 bg-primary-50 flex items-center justify-center gap-2"><RotateCcw size={14} /> AGAIN</button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StructureDrill;
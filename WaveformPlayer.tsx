@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { createAudioContext } from './speak/audioContext';
+
+export interface SeekRequest {
+  time: number;
+  /** Bumped on every request so seeking to the same word twice still fires. */
+  nonce: number;
+}
+
+interface WaveformPlayerProps {
+    blob: Blob;
+    seek?: SeekRequest | null;
+    bars?: number;
+}
+
+const computePeaks = async (blob: Blob, bars: number): Promise<number[]> => {
+  const ctx = createAudioContext();
+  try {
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const data = buffer.getChannelData(0);
+    const size = Math.max(1, Math.floor(data.length / bars));
+    const peaks = Array.from({ length: bars }, (_, i) => {
+      let max = 0;
+      for (let j = i * size; j < Math.min((i + 1) * size, data.length); j++) max = Math.max(max, Math.abs(data[j]));
+      return max;
+    });
+    const top = Math.max(...peaks, 0.01);
+    return peaks.map(p => p / top);
+  } finally {
+    ctx.close();
+  }
+};
+
+export const WaveformPlayer: React.FC<WaveformPlayerProps> = ({ blob, seek, bars = 64 }) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [url, setUrl] = useState("");
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    computePeaks(blob, bars).then(setPeaks).catch(() => setPeaks(new Array(bars).fill(0.3)));
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob, bars]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!seek || !audio) return;
+    audio.currentTime = Math.max(0, seek.time - 0.3);
+    audio.play();
+  }, [seek]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play();
+    else audio.pause();
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((e.clientX - rect.left) / rect.width) * duration;
+  };
+
+  const progress = duration > 0 ? position / duration : 0;
+
+  return (
+    <div className="flex items-center gap-3 p-2 bg-white border border-gray-100 rounded-xl">
+      <audio
+        ref={audioRef}
+        src={url}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+        // MediaRecorder webm files report Infinity until fully read.
+        onLoadedMetadata={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+        onDurationChange={(e) => Number.isFinite(e.currentTarget.duration) && setDuration(e.currentTarget.duration)}
+      />
+      <button onClick={togglePlay} aria-label={isPlaying ? "Pause recording" : "Play recording"} className="w-9 h-9 rounded-full bg-primary-600 text-white flex items-center justify-center shrink-0">
+        {isPlaying ? <Pause size={16} fill="white" /> : <Play size={16} fill="white" />}
+      </button>
+      <div className="flex-1 flex items-center gap-[2px] h-10 cursor-pointer" onClick={handleSeek} aria-hidden="true">
+        {peaks.map((p, i) => (
+          <div key={i} className={`flex-1 rounded-full ${i / peaks.length < progress ? 'bg-primary-500' : 'bg-gray-200'}`} style={{ height: `${Math.max(8, p * 100)}%` }} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformPlayer;
@@ -0,0 +1,65 @@
+/** 'close' is never produced here; callers refine 'correct' pairs with their matcher's tier. */
+export type WordStatus = 'correct' | 'close' | 'substituted' | 'omitted' | 'inserted';
+
+export interface AlignedWord {
+  expected: string | null;
+  spoken: string | null;
+  /** Position of the spoken word in the transcript, for looking up its timestamp. */
+  spokenIndex: number | null;
+  status: WordStatus;
+}
+
+export type WordMatcher = (expected: string, spoken: string) => boolean;
+
+/**
+ * Aligns the spoken words against the expected words with a token-level
+ * Levenshtein table, so one skipped or extra word only affects itself
+ * instead of shifting every word after it.
+ */
+export const alignWords = (expected: string[], spoken: string[], matches: WordMatcher): AlignedWord[] => {
+  const n = expected.length;
+  const m = spoken.length;
+  const same: boolean[][] = expected.map(e => spoken.map(s => matches(e, s)));
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+
+  for (let i = 0; i <= n; i++) cost[i][0] = i;
+  for (let j = 0; j <= m; j++) cost[0][j] = j;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const diagonal = cost[i - 1][j - 1] + (same[i - 1][j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(diagonal, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const aligned: AlignedWord[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (same[i - 1][j - 1] ? 0 : 1)) {
+      aligned.push({ expected: expected[i - 1], spoken: spoken[j - 1], spokenIndex: j - 1, status: same[i - 1][j - 1] ? 'correct' : 'substituted' });
+      i--; j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      aligned.push({ expected: expected[i - 1], spoken: null, spokenIndex: null, status: 'omitted' });
+      i--;
+    } else {
+      aligned.push({ expected: null, spoken: spoken[j - 1], spokenIndex: j - 1, status: 'inserted' });
+      j--;
+    }
+  }
+  return aligned.reverse();
+};
+
+export type ProgressStatus = WordStatus | 'pending';
+
+/**
+ * Aligns a partial transcript against the full expected text. Expected words
+ * after the last one the speaker has reached are 'pending' rather than
+ * omitted; inserted words are dropped since there is no slot to show them in.
+ */
+export const alignProgress = (expected: string[], spoken: string[], matches: WordMatcher): { status: ProgressStatus; spoken: string | null }[] => {
+  const aligned = alignWords(expected, spoken, matches).filter(a => a.expected !== null);
+  let reached = aligned.length;
+  while (reached > 0 && aligned[reached - 1].status === 'omitted') reached--;
+  return aligned.map((a, i) => ({ status: i < reached ? a.status : 'pending', spoken: a.spoken }));
+};
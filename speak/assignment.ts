@@ -0,0 +1,73 @@
+import { DIFFICULTY_LEVELS, DifficultyLevel } from './hints';
+
+export interface Assignment {
+  memorizationId: string;
+  title: string;
+  requiredLevel: DifficultyLevel;
+  /** Accuracy every paragraph must reach, 0-100. */
+  targetAccuracy: number;
+  dueAt?: number;
+  assignedAt: number;
+  /** Filled in by the learner when they accept the assignment. */
+  learner?: string;
+}
+
+export const MIN_TARGET_ACCURACY = 10;
+export const MAX_TARGET_ACCURACY = 100;
+
+const STORAGE_PREFIX = 'recallix.speak.assignment.';
+const CODE_PREFIX = 'RCX1-';
+
+export const loadAssignment = (memorizationId: string): Assignment | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + memorizationId) || 'null');
+    return stored && stored.memorizationId === memorizationId ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveAssignment = (assignment: Assignment) => {
+  localStorage.setItem(STORAGE_PREFIX + assignment.memorizationId, JSON.stringify(assignment));
+};
+
+export const clearAssignment = (memorizationId: string) => {
+  localStorage.removeItem(STORAGE_PREFIX + memorizationId);
+};
+
+// Base64 over UTF-8 so titles in any script survive the round trip.
+const toBase64 = (text: string) => btoa(Array.from(new TextEncoder().encode(text), b => String.fromCharCode(b)).join(''));
+const fromBase64 = (code: string) => new TextDecoder().decode(Uint8Array.from(atob(code), c => c.charCodeAt(0)));
+
+/** A short code a teacher can paste into a class chat; it carries no learner data. */
+export const encodeAssignment = ({ learner, ...assignment }: Assignment): string => CODE_PREFIX + toBase64(JSON.stringify(assignment));
+
+const isTimestamp = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isAssignment = (value: unknown): value is Assignment => {
+  if (typeof value !== 'object' || value === null) return false;
+  const a = value as Record<string, unknown>;
+  return typeof a.memorizationId === 'string' && typeof a.title === 'string'
+    && DIFFICULTY_LEVELS.some(d => d.level === a.requiredLevel)
+    && typeof a.targetAccuracy === 'number' && a.targetAccuracy >= MIN_TARGET_ACCURACY && a.targetAccuracy <= MAX_TARGET_ACCURACY
+    && (a.dueAt === undefined || isTimestamp(a.dueAt))
+    && isTimestamp(a.assignedAt);
+};
+
+export type DecodedAssignment = { ok: true; assignment: Assignment } | { ok: false; error: string };
+
+export const decodeAssignment = (code: string, memorizationId: string): DecodedAssignment => {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(CODE_PREFIX)) return { ok: false, error: "That doesn't look like an assignment code." };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fromBase64(trimmed.slice(CODE_PREFIX.length)));
+  } catch {
+    return { ok: false, error: "The code is incomplete. Copy it again from your teacher." };
+  }
+  if (!isAssignment(parsed)) return { ok: false, error: "The code is incomplete. Copy it again from your teacher." };
+  if (parsed.memorizationId !== memorizationId) return { ok: false, error: `This code is for "${parsed.title}". Open that text to accept it.` };
+  // Only the fields a teacher sets are kept; anything else in the code is dropped.
+  const { title, requiredLevel, targetAccuracy, dueAt, assignedAt } = parsed;
+  return { ok: true, assignment: { memorizationId, title, requiredLevel, targetAccuracy, dueAt, assignedAt } };
+};
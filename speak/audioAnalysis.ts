@@ -0,0 +1,113 @@
+import { WordTiming } from './transcription';
+import { createAudioContext } from './audioContext';
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export interface RecordingAnalysis {
+  duration: number;
+  /** Loudest frame's RMS, 0-1. */
+  peak: number;
+  speechSeconds: number;
+  segments: SpeechSegment[];
+}
+
+const FRAME_SECONDS = 0.02;
+const MIN_GAP_SECONDS = 0.25;
+const MIN_SPEECH_SECONDS = 0.1;
+
+export const decodeAudio = async (blob: Blob): Promise<AudioBuffer> => {
+  const ctx = createAudioContext();
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    ctx.close();
+  }
+};
+
+export const frameEnergies = (samples: Float32Array, sampleRate: number, frameSeconds = FRAME_SECONDS): number[] => {
+  const size = Math.max(1, Math.round(sampleRate * frameSeconds));
+  const energies: number[] = [];
+  for (let i = 0; i < samples.length; i += size) {
+    let sum = 0;
+    const end = Math.min(i + size, samples.length);
+    for (let j = i; j < end; j++) sum += samples[j] * samples[j];
+    energies.push(Math.sqrt(sum / (end - i)));
+  }
+  return energies;
+};
+
+/**
+ * Energy-based voice activity detection. The threshold adapts to the
+ * recording's own noise floor (its quietest tenth), so a noisy room does not
+ * read as one long utterance.
+ */
+export const detectSpeech = (energies: number[], frameSeconds = FRAME_SECONDS): SpeechSegment[] => {
+  if (energies.length === 0) return [];
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const threshold = Math.max(noiseFloor * 3, 0.01);
+
+  const segments: SpeechSegment[] = [];
+  let openAt: number | null = null;
+  energies.forEach((e, i) => {
+    if (e >= threshold && openAt === null) openAt = i;
+    if (e < threshold && openAt !== null) {
+      segments.push({ start: openAt * frameSeconds, end: i * frameSeconds });
+      openAt = null;
+    }
+  });
+  if (openAt !== null) segments.push({ start: openAt * frameSeconds, end: energies.length * frameSeconds });
+
+  const merged: SpeechSegment[] = [];
+  segments.forEach(s => {
+    const last = merged[merged.length - 1];
+    if (last && s.start - last.end < MIN_GAP_SECONDS) last.end = s.end;
+    else merged.push({ ...s });
+  });
+  return merged.filter(s => s.end - s.start >= MIN_SPEECH_SECONDS);
+};
+
+export const analyzeRecording = async (blob: Blob): Promise<RecordingAnalysis> => {
+  const buffer = await decodeAudio(blob);
+  const energies = frameEnergies(buffer.getChannelData(0), buffer.sampleRate);
+  const segments = detectSpeech(energies);
+  return {
+    duration: buffer.duration,
+    peak: energies.reduce((a, b) => Math.max(a, b), 0),
+    speechSeconds: segments.reduce((a, s) => a + s.end - s.start, 0),
+    segments
+  };
+};
+
+/**
+ * Spreads transcript words over the detected speech when the provider gave no
+ * timestamps. Each stretch of speech gets a share of words in proportion to
+ * its length, so silences fall between words rather than inside them.
+ */
+export const estimateWordTimings = (segments: SpeechSegment[], words: string[]): WordTiming[] => {
+  const total = segments.reduce((a, s) => a + s.end - s.start, 0);
+  if (words.length === 0 || total === 0) return [];
+
+  const exact = segments.map(s => ((s.end - s.start) / total) * words.length);
+  const counts = exact.map(Math.floor);
+  const byRemainder = exact.map((e, i) => ({ i, r: e - Math.floor(e) })).sort((a, b) => b.r - a.r);
+  for (let k = 0; counts.reduce((a, b) => a + b, 0) < words.length; k++) counts[byRemainder[k % byRemainder.length].i]++;
+
+  const timings: WordTiming[] = [];
+  let cursor = 0;
+  segments.forEach((segment, si) => {
+    const group = words.slice(cursor, cursor + counts[si]);
+    cursor += counts[si];
+    const chars = group.reduce((a, w) => a + w.length, 0) || 1;
+    let t = segment.start;
+    group.forEach(w => {
+      const length = ((segment.end - segment.start) * w.length) / chars;
+      timings.push({ text: w, start: t, end: t + length });
+      t += length;
+    });
+  });
+  return timings;
+};
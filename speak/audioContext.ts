@@ -0,0 +1,12 @@
+interface AudioContextWindow {
+  AudioContext?: typeof AudioContext;
+  webkitAudioContext?: typeof AudioContext;
+}
+
+/** Older Safari only ships the prefixed constructor. */
+export const createAudioContext = (): AudioContext => {
+  const audioWindow = window as unknown as AudioContextWindow;
+  const Ctor = audioWindow.AudioContext || audioWindow.webkitAudioContext;
+  if (!Ctor) throw new Error("Web Audio is not supported in this browser.");
+  return new Ctor();
+};
@@ -0,0 +1,183 @@
+import { Memorization } from '../../../types';
+
+export type CorpusFormat = 'js-array' | 'json' | 'markdown' | 'csv' | 'text';
+
+export type ImportedMemorization = Pick<Memorization, 'id' | 'title' | 'text'>;
+
+export interface ImportResult {
+  format: CorpusFormat;
+  items: ImportedMemorization[];
+  warnings: string[];
+}
+
+interface RawEntry {
+  title?: string;
+  id?: string;
+  lines?: string[];
+  text?: string;
+}
+
+const LIBRARY_KEY = 'recallix.speak.library';
+
+const ASSIGNMENT_PREFIX = /^\s*(?:(?:var|let|const)\s+)?[\w$]+\s*=\s*/;
+
+export const slugify = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48);
+
+export const detectFormat = (content: string, fileName = ''): CorpusFormat => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const head = content.trimStart();
+  // Checked before the extension: sonnets.json is really a JS assignment.
+  if (ASSIGNMENT_PREFIX.test(head) && /=\s*[[{]/.test(head.slice(0, 200))) return 'js-array';
+  if (ext === 'json' || head.startsWith('[') || head.startsWith('{')) return 'json';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'md' || ext === 'markdown' || /^#\s+\S/m.test(head)) return 'markdown';
+  return 'text';
+};
+
+const entryToItem = (entry: RawEntry, index: number, warnings: string[]): ImportedMemorization | null => {
+  const text = (entry.lines ? entry.lines.map(l => l.trim()).join('\n') : (entry.text || '')).trim();
+  if (!text) {
+    warnings.push(`Entry ${index + 1}${entry.title ? ` ("${entry.title}")` : ''} has no text and was skipped.`);
+    return null;
+  }
+  const title = (entry.title || text.split('\n')[0]).trim();
+  return { id: slugify(title) || `item-${index + 1}`, title, text };
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/** Checks one JSON entry's shape; a bad entry is reported and skipped rather than failing the whole file. */
+const toRawEntry = (value: unknown, index: number, warnings: string[]): RawEntry | null => {
+  if (typeof value === 'string') return { text: value };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    warnings.push(`Entry ${index + 1} is not a text or an object with "title" and "lines" or "text", and was skipped.`);
+    return null;
+  }
+  const entry = value as Record<string, unknown>;
+  const problems = [
+    !isOptionalString(entry.title) && '"title" is not text',
+    !isOptionalString(entry.id) && '"id" is not text',
+    !isOptionalString(entry.text) && '"text" is not text',
+    entry.lines !== undefined && !(Array.isArray(entry.lines) && entry.lines.every(l => typeof l === 'string')) && '"lines" is not a list of lines'
+  ].filter((p): p is string => !!p);
+  if (problems.length > 0) {
+    const title = typeof entry.title === 'string' ? ` ("${entry.title}")` : '';
+    warnings.push(`Entry ${index + 1}${title} was skipped: ${problems.join(', ')}.`);
+    return null;
+  }
+  return entry as RawEntry;
+};
+
+const parseJsonEntries = (json: unknown, warnings: string[]): (RawEntry | null)[] =>
+  (Array.isArray(json) ? json : [json]).map((e, i) => toRawEntry(e, i, warnings));
+
+/** RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (quoted) {
+      if (c === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += c;
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim().length > 0));
+};
+
+const csvEntries = (content: string, warnings: string[]): RawEntry[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const cols = header.map(h => h.trim().toLowerCase());
+  const titleCol = cols.indexOf('title');
+  const textCol = cols.findIndex(c => c === 'text' || c === 'body' || c === 'content');
+  const linesCol = cols.indexOf('lines');
+  if (textCol < 0 && linesCol < 0) {
+    warnings.push('CSV needs a "text" or "lines" column.');
+    return [];
+  }
+  return rows.map(r => ({
+    title: titleCol >= 0 ? r[titleCol] : undefined,
+    text: textCol >= 0 ? r[textCol] : undefined,
+    // A "lines" cell separates lines with " / " as poems are usually quoted.
+    lines: textCol < 0 ? (r[linesCol] || '').split(/\s*\/\s*|\n/) : undefined
+  }));
+};
+
+const markdownEntries = (content: string): RawEntry[] => {
+  const entries: RawEntry[] = [];
+  let current: RawEntry | null = null;
+  content.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    if (heading) {
+      current = { title: heading[1].trim(), text: '' };
+      entries.push(current);
+    } else {
+      if (!current) { current = { text: '' }; entries.push(current); }
+      // Drop emphasis and list markers but keep line breaks, which poems rely on.
+      current.text += line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').replace(/[*_`]/g, '') + '\n';
+    }
+  });
+  return entries;
+};
+
+export const importCorpus = (content: string, fileName = '', format: CorpusFormat = detectFormat(content, fileName)): ImportResult => {
+  const warnings: string[] = [];
+  // Entries that failed validation stay as nulls so later warnings keep their numbering.
+  let entries: (RawEntry | null)[] = [];
+  try {
+    switch (format) {
+      case 'js-array':
+        entries = parseJsonEntries(JSON.parse(content.replace(ASSIGNMENT_PREFIX, '').replace(/;\s*$/, '')), warnings);
+        break;
+      case 'json':
+        entries = parseJsonEntries(JSON.parse(content), warnings);
+        break;
+      case 'csv':
+        entries = csvEntries(content, warnings);
+        break;
+      case 'markdown':
+        entries = markdownEntries(content);
+        break;
+      case 'text':
+        entries = [{ title: fileName.replace(/\.[^.]+$/, '') || undefined, text: content }];
+        break;
+    }
+  } catch (err) {
+    warnings.push(`Could not parse as ${format}: ${(err as Error).message}`);
+  }
+
+  const items = entries.map((e, i) => e && entryToItem(e, i, warnings)).filter((i): i is ImportedMemorization => i !== null);
+  const seen = new Map<string, number>();
+  items.forEach(item => {
+    const n = (seen.get(item.id) || 0) + 1;
+    seen.set(item.id, n);
+    if (n > 1) item.id = `${item.id}-${n}`;
+  });
+  return { format, items, warnings };
+};
+
+export const loadImportedLibrary = (): ImportedMemorization[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIBRARY_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Re-importing a text with the same id replaces the saved copy instead of adding a second one. */
+export const saveToImportedLibrary = (items: ImportedMemorization[]) => {
+  const byId = new Map(loadImportedLibrary().map(item => [item.id, item]));
+  items.forEach(item => byId.set(item.id, item));
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(Array.from(byId.values())));
+};
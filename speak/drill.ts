@@ -0,0 +1,108 @@
+import { alignWords } from './alignment';
+import { normalize, WordMatchFn } from './matching';
+
+export interface DrillItem {
+  /** Normalized answer, unique within a memorization's drill list. */
+  key: string;
+  /** The missed word, or a run of adjacent missed words, as written in the text. */
+  answer: string;
+  before: string;
+  after: string;
+  /** Correct recalls in a row; the item is cleared once this reaches CLEAR_AFTER. */
+  streak: number;
+  attempts: number;
+  correct: number;
+  addedAt: number;
+}
+
+export const CONTEXT_WORDS = 4;
+export const CLEAR_AFTER = 3;
+/** Longer runs of misses are a whole line forgotten, which a cloze can't help with. */
+const MAX_PHRASE_WORDS = 4;
+
+const STORAGE_PREFIX = 'recallix.speak.drill.';
+
+const bareWord = (token: string) => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+/** Normalizes word by word so a phrase keeps its word breaks ("a part" and "apart" stay distinct). */
+const drillKey = (answer: string) => answer.split(/\s+/).map(w => normalize(w)).filter(w => w.length > 0).join(' ');
+
+/**
+ * Finds each missed word in the recited texts and cuts a cloze around it.
+ * Misses that sit next to each other become one phrase item.
+ */
+export const buildDrillItems = (missedWords: string[], texts: string[], now = Date.now()): DrillItem[] => {
+  const missed = new Set(missedWords.map(w => normalize(w)).filter(w => w.length > 0));
+  const items = new Map<string, DrillItem>();
+  texts.forEach(text => {
+    const tokens = text.split(/\s+/).filter(t => t.length > 0);
+    let i = 0;
+    while (i < tokens.length) {
+      if (!missed.has(normalize(tokens[i]))) { i++; continue; }
+      let end = i + 1;
+      while (end < tokens.length && end - i < MAX_PHRASE_WORDS && missed.has(normalize(tokens[end]))) end++;
+      const answer = tokens.slice(i, end).map(bareWord).join(' ');
+      const key = drillKey(answer);
+      if (!items.has(key)) {
+        items.set(key, {
+          key, answer,
+          before: tokens.slice(Math.max(0, i - CONTEXT_WORDS), i).join(' '),
+          after: tokens.slice(end, end + CONTEXT_WORDS).join(' '),
+          streak: 0, attempts: 0, correct: 0, addedAt: now
+        });
+      }
+      i = end;
+    }
+  });
+  return Array.from(items.values());
+};
+
+/** Adds fresh items without resetting progress on ones already being drilled. */
+export const mergeDrillItems = (existing: DrillItem[], fresh: DrillItem[]): DrillItem[] => {
+  const known = new Set(existing.map(item => item.key));
+  return [...existing, ...fresh.filter(item => !known.has(item.key))];
+};
+
+/** Every word of the answer has to be recalled; close matches count, as they do in a recital. */
+export const isDrillAnswerCorrect = (item: DrillItem, response: string, matchWords: WordMatchFn): boolean => {
+  const expected = item.answer.split(/\s+/);
+  const given = response.split(/\s+/).filter(w => w.length > 0);
+  if (given.length === 0) return false;
+  // A recited response includes the context, so only the answer's own words need to line up.
+  const context = item.before.split(/\s+/).filter(w => w.length > 0);
+  const full = [...context, ...expected, ...item.after.split(/\s+/).filter(w => w.length > 0)];
+  const target = given.length > expected.length ? full : expected;
+  const offset = given.length > expected.length ? context.length : 0;
+  const aligned = alignWords(target, given, (e, s) => matchWords(e, s).tier !== 'none');
+  const answerSlots = aligned.filter(a => a.expected !== null).slice(offset, offset + expected.length);
+  return answerSlots.length === expected.length && answerSlots.every(a => a.status === 'correct');
+};
+
+export const applyDrillAnswer = (item: DrillItem, correct: boolean): DrillItem => ({
+  ...item,
+  attempts: item.attempts + 1,
+  correct: item.correct + (correct ? 1 : 0),
+  streak: correct ? item.streak + 1 : 0
+});
+
+export const isCleared = (item: DrillItem) => item.streak >= CLEAR_AFTER;
+
+export const loadDrillList = (memorizationId: string): DrillItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + memorizationId) || '[]');
+    if (!Array.isArray(stored)) return [];
+    // Lists saved before keys kept word breaks are rekeyed, keeping the first of any that now collide.
+    const items = new Map<string, DrillItem>();
+    (stored as DrillItem[]).forEach(item => {
+      const key = drillKey(item.answer);
+      if (!items.has(key)) items.set(key, { ...item, key });
+    });
+    return Array.from(items.values());
+  } catch {
+    return [];
+  }
+};
+
+export const saveDrillList = (memorizationId: string, items: DrillItem[]) => {
+  localStorage.setItem(STORAGE_PREFIX + memorizationId, JSON.stringify(items.filter(item => !isCleared(item))));
+};
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { initialSessionState, isSessionInProgress, SessionEvent, SessionState, sessionReducer } from './engine';
+import { buildReviewItems } from './scoring';
+import { ChunkResult } from './types';
+
+const run = (state: SessionState, ...events: SessionEvent[]) => events.reduce(sessionReducer, state);
+
+const start = (chunks: string[], state = initialSessionState) =>
+  run(state, { type: 'start', sessionId: 's1', chunks, chunkSegments: chunks.map((_, i) => i) });
+
+/** A scored chunk at the state's current position and level, as SpeakGame builds it. */
+const resultFor = (state: SessionState, accuracy: number, duration = 10): ChunkResult => ({
+  index: state.currentChunkIdx,
+  segmentIndex: state.chunkSegments[state.currentChunkIdx],
+  expected: state.chunks[state.currentChunkIdx],
+  spoken: state.chunks[state.currentChunkIdx],
+  accuracy,
+  missedWords: [],
+  substitutedWords: [],
+  omittedWords: [],
+  insertedWords: [],
+  duration,
+  level: state.level
+});
+
+/** Records, transcribes and accepts the current chunk. */
+const recite = (state: SessionState, accuracy: number, duration?: number) => {
+  const words = state.chunks[state.currentChunkIdx].split(' ');
+  const items = buildReviewItems(words, words);
+  return run(state,
+    { type: 'record' },
+    { type: 'transcribed', items },
+    { type: 'finishChunk', result: resultFor(state, accuracy, duration) });
+};
+
+describe('sessionReducer', () => {
+  it('starts a session on its first chunk', () => {
+    const state = start(['one two', 'three four']);
+    expect(state.step).toBe('practice');
+    expect(state.currentChunkIdx).toBe(0);
+    expect(state.sessionId).toBe('s1');
+    expect(state.completion).toBeNull();
+    expect(isSessionInProgress(state)).toBe(true);
+  });
+
+  it('walks a chunk through recording, correction and on to the next chunk', () => {
+    const started = start(['one two', 'three four', 'five six']);
+    const processing = run(started, { type: 'record' });
+    expect(processing.step).toBe('processing');
+
+    const items = buildReviewItems(['one', 'two'], ['one', 'to']);
+    const correcting = run(processing, { type: 'transcribed', items });
+    expect(correcting.step).toBe('correction');
+    expect(correcting.reviewItems.map(i => i.status)).toEqual(['correct', 'substituted']);
+
+    const edited = run(correcting, { type: 'editWord', index: 1, spoken: 'two' });
+    expect(edited.reviewItems[1].status).toBe('correct');
+
+    const next = run(edited, { type: 'finishChunk', result: resultFor(edited, 75) });
+    expect(next.step).toBe('practice');
+    expect(next.currentChunkIdx).toBe(1);
+    expect(next.reviewItems).toEqual([]);
+    expect(next.sessionResults.map(r => r.index)).toEqual([0]);
+  });
+
+  it('completes after the last chunk with per-level summaries and the final average', () => {
+    let state = start(['a b', 'c d', 'e f']);
+    state = recite(state, 80, 10);
+    state = recite(state, 70, 20);
+    state = recite(state, 75, 30);
+    expect(state.step).toBe('results');
+    expect(state.sessionResults.map(r => r.index)).toEqual([0, 1, 2]);
+    expect(state.levelSummaries[3]).toEqual({ accuracy: 75, rawAccuracy: 75, time: 60, completed: true });
+    expect(state.completion).toEqual({ finalAverage: 75 });
+    expect(isSessionInProgress(state)).toBe(false);
+  });
+
+  it('promotes and demotes between chunks when the level is automatic', () => {
+    let state = start(['a', 'b', 'c', 'd']);
+    expect(state.level).toBe(3);
+
+    state = recite(state, 95);
+    expect(state.level).toBe(4);
+    expect(state.levelChange).toBe('promoted');
+
+    state = recite(state, 75);
+    expect(state.level).toBe(4);
+    expect(state.levelChange).toBeNull();
+
+    state = recite(state, 40);
+    expect(state.level).toBe(3);
+    expect(state.levelChange).toBe('demoted');
+  });
+
+  it('averages each level once when a session spans several levels', () => {
+    let state = start(['a', 'b', 'c']);
+    state = recite(state, 96);
+    state = recite(state, 80);
+    state = recite(state, 70);
+    expect(state.sessionResults.map(r => r.level)).toEqual([3, 4, 4]);
+    expect(state.levelSummaries[3].accuracy).toBe(96);
+    expect(state.levelSummaries[4].accuracy).toBe(75);
+    // Levels weigh the same however many chunks were recited at each.
+    expect(state.completion?.finalAverage).toBe(86);
+  });
+
+  it('never eases below the minimum level', () => {
+    const state = run(initialSessionState,
+      { type: 'setLevel', level: 4 },
+      { type: 'start', sessionId: 's1', chunks: ['a', 'b'], chunkSegments: [0, 1], minLevel: 4 });
+    expect(recite(state, 10).level).toBe(4);
+  });
+
+  it('raises the starting level to the minimum', () => {
+    const state = run(initialSessionState, { type: 'start', sessionId: 's1', chunks: ['a'], chunkSegments: [0], minLevel: 5 });
+    expect(state.level).toBe(5);
+  });
+
+  it('holds a level set by hand when automatic levels are off', () => {
+    let state = run(start(['a', 'b', 'c']), { type: 'setAutoLevel', autoLevel: false }, { type: 'setLevel', level: 2 });
+    state = recite(state, 100);
+    expect(state.level).toBe(2);
+    expect(state.levelChange).toBeNull();
+    state = recite(state, 0);
+    expect(state.level).toBe(2);
+  });
+
+  it('keeps the level and automatic setting into the next session', () => {
+    let state = run(initialSessionState, { type: 'setAutoLevel', autoLevel: false }, { type: 'setLevel', level: 5 });
+    state = recite(start(['a'], state), 90);
+    const next = start(['b'], state);
+    expect(next.level).toBe(5);
+    expect(next.autoLevel).toBe(false);
+    expect(next.sessionResults).toEqual([]);
+  });
+
+  it('waits for queued chunks before completing', () => {
+    let state = start(['a', 'b']);
+    state = run(state, { type: 'record' }, { type: 'queued' });
+    expect(state.currentChunkIdx).toBe(1);
+    expect(state.queuedChunks).toEqual([0]);
+
+    state = recite(state, 90);
+    expect(state.step).toBe('results');
+    expect(state.awaitingPending).toBe(true);
+    expect(state.completion).toBeNull();
+
+    const late = { ...resultFor(start(['a', 'b']), 70), level: 3 };
+    state = run(state, { type: 'queuedResult', result: late });
+    expect(state.awaitingPending).toBe(false);
+    expect(state.sessionResults.map(r => r.index)).toEqual([0, 1]);
+    expect(state.completion).toEqual({ finalAverage: 80 });
+  });
+
+  it('sends a chunk whose queued transcript failed round again before completing', () => {
+    let state = start(['a', 'b', 'c']);
+    state = run(state, { type: 'record' }, { type: 'queued' });
+    state = run(state, { type: 'queuedFailed', index: 0 });
+    expect(state.queuedChunks).toEqual([]);
+    expect(state.retakeChunks).toEqual([0]);
+    expect(state.currentChunkIdx).toBe(1);
+
+    state = recite(state, 90);
+    state = recite(state, 90);
+    expect(state.step).toBe('practice');
+    expect(state.currentChunkIdx).toBe(0);
+
+    state = recite(state, 70);
+    expect(state.retakeChunks).toEqual([]);
+    expect(state.sessionResults.map(r => r.index)).toEqual([0, 1, 2]);
+    expect(state.completion).not.toBeNull();
+  });
+
+  it('goes straight back to a failed chunk when only queued chunks were left', () => {
+    let state = start(['a', 'b']);
+    state = recite(state, 90);
+    state = run(state, { type: 'record' }, { type: 'queued' });
+    expect(state.awaitingPending).toBe(true);
+
+    state = run(state, { type: 'queuedFailed', index: 1 });
+    expect(state.step).toBe('practice');
+    expect(state.awaitingPending).toBe(false);
+    expect(state.currentChunkIdx).toBe(1);
+    expect(state.completion).toBeNull();
+  });
+
+  it('ignores results for chunks that are not queued', () => {
+    const state = start(['a', 'b']);
+    expect(run(state, { type: 'queuedResult', result: resultFor(state, 50) })).toBe(state);
+  });
+
+  it('returns from a retake to practice on the same chunk', () => {
+    const items = buildReviewItems(['a'], ['b']);
+    const state = run(start(['a', 'b']), { type: 'record' }, { type: 'transcribed', items }, { type: 'retake' });
+    expect(state.step).toBe('practice');
+    expect(state.currentChunkIdx).toBe(0);
+    expect(state.reviewItems).toEqual([]);
+  });
+
+  it('returns from a side view to the step it was opened from', () => {
+    const practice = start(['a']);
+    const history = run(practice, { type: 'showView', view: 'history' });
+    expect(history.step).toBe('history');
+    expect(run(history, { type: 'closeView' }).step).toBe('practice');
+  });
+});
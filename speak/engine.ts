@@ -0,0 +1,202 @@
+import { DifficultyLevel, MIN_LEVEL, nextLevel } from './hints';
+import { finalAverage, ReviewItem, scoreWord, summarizeLevels } from './scoring';
+import { WordMatchFn } from './matching';
+import { ChunkResult, LevelSummary } from './types';
+
+export type GameStep = 'setup' | 'practice' | 'processing' | 'correction' | 'results' | 'history' | 'class' | 'drill' | 'structure' | 'import';
+
+/** Steps that sit outside a session's flow and return to wherever they were opened from. */
+export type SideView = 'history' | 'class' | 'drill' | 'structure' | 'import';
+
+export interface SessionState {
+  step: GameStep;
+  /** Where closing a side view returns to. */
+  viewReturn: GameStep;
+  sessionId: string;
+  chunks: string[];
+  /** Segment index behind each chunk. */
+  chunkSegments: number[];
+  currentChunkIdx: number;
+  level: DifficultyLevel;
+  autoLevel: boolean;
+  /** Automatic easing never drops below this, e.g. an assignment's required level. */
+  minLevel: DifficultyLevel;
+  levelChange: 'promoted' | 'demoted' | null;
+  reviewItems: ReviewItem[];
+  sessionResults: ChunkResult[];
+  levelSummaries: Record<number, LevelSummary>;
+  /** Chunks recited this session that are waiting in the transcription queue. */
+  queuedChunks: number[];
+  /** Queued chunks whose transcript failed its checks; they are recited again before the session completes. */
+  retakeChunks: number[];
+  /** Every chunk has been recited but some are still queued. */
+  awaitingPending: boolean;
+  /** Set each time a session completes; a new object per completion. */
+  completion: { finalAverage: number } | null;
+}
+
+/** The part of the state that survives a reload. */
+export type PersistedSession = Pick<SessionState,
+  'sessionId' | 'chunks' | 'chunkSegments' | 'currentChunkIdx' | 'level' | 'autoLevel' | 'minLevel' | 'sessionResults' | 'levelSummaries' | 'queuedChunks' | 'retakeChunks' | 'awaitingPending'>;
+
+export type SessionEvent =
+  | { type: 'start'; sessionId: string; chunks: string[]; chunkSegments: number[]; minLevel?: DifficultyLevel }
+  /** `stillQueued` and `recovered` reconcile chunks that were queued when the session was saved. */
+  | { type: 'resume'; session: PersistedSession; stillQueued: number[]; recovered: ChunkResult[] }
+  | { type: 'setLevel'; level: DifficultyLevel }
+  | { type: 'setAutoLevel'; autoLevel: boolean }
+  | { type: 'record' }
+  | { type: 'transcribed'; items: ReviewItem[] }
+  | { type: 'fail' }
+  | { type: 'editWord'; index: number; spoken: string; matchWords?: WordMatchFn }
+  | { type: 'toggleEdit'; index: number }
+  | { type: 'dismissWord'; index: number }
+  | { type: 'finishChunk'; result: ChunkResult }
+  | { type: 'queued' }
+  | { type: 'queuedResult'; result: ChunkResult }
+  | { type: 'queuedFailed'; index: number }
+  | { type: 'retake' }
+  | { type: 'leave' }
+  | { type: 'abandon' }
+  | { type: 'showView'; view: SideView }
+  | { type: 'closeView' };
+
+export const initialSessionState: SessionState = {
+  step: 'setup',
+  viewReturn: 'setup',
+  sessionId: "",
+  chunks: [],
+  chunkSegments: [],
+  currentChunkIdx: 0,
+  level: 3,
+  autoLevel: true,
+  minLevel: MIN_LEVEL,
+  levelChange: null,
+  reviewItems: [],
+  sessionResults: [],
+  levelSummaries: {},
+  queuedChunks: [],
+  retakeChunks: [],
+  awaitingPending: false,
+  completion: null
+};
+
+const byIndex = (a: ChunkResult, b: ChunkResult) => a.index - b.index;
+
+const complete = (state: SessionState, results: ChunkResult[]): SessionState => {
+  const levelSummaries = summarizeLevels(results, state.levelSummaries);
+  return {
+    ...state, step: 'results', sessionResults: results, levelSummaries, levelChange: null, reviewItems: [],
+    awaitingPending: false, completion: { finalAverage: finalAverage(levelSummaries) }
+  };
+};
+
+/** The next chunk still to recite: the first one after the current chunk, then any earlier one sent back for a retake. */
+const nextChunkIndex = (state: SessionState, results: ChunkResult[]): number | null => {
+  const done = new Set([state.currentChunkIdx, ...results.map(r => r.index), ...state.queuedChunks]);
+  const open = state.chunks.map((_, i) => i).filter(i => !done.has(i));
+  return open.find(i => i > state.currentChunkIdx) ?? open[0] ?? null;
+};
+
+/** Moves to the next chunk, or wraps up once every chunk has been recited (scored or still queued). */
+const advance = (state: SessionState, results: ChunkResult[], level: DifficultyLevel): SessionState => {
+  const retakeChunks = state.retakeChunks.filter(i => i !== state.currentChunkIdx);
+  const next = nextChunkIndex(state, results);
+  if (next !== null) {
+    return {
+      ...state, step: 'practice', sessionResults: results, reviewItems: [], currentChunkIdx: next, retakeChunks,
+      level, levelChange: level > state.level ? 'promoted' : level < state.level ? 'demoted' : null
+    };
+  }
+  if (state.queuedChunks.length > 0) return { ...state, step: 'results', sessionResults: results, reviewItems: [], retakeChunks, awaitingPending: true };
+  return complete({ ...state, retakeChunks }, results);
+};
+
+/** Back to a chunk that has to be recited again, from the waiting screen or a view opened over it. */
+const returnToRetake = (state: SessionState, index: number): SessionState => ({
+  ...state, awaitingPending: false, currentChunkIdx: index, reviewItems: [], levelChange: null,
+  ...(state.step === 'results' ? { step: 'practice' } : { viewReturn: 'practice' })
+});
+
+const updateItem = (items: ReviewItem[], index: number, update: (item: ReviewItem) => ReviewItem) =>
+  items.map((item, i) => i === index ? update(item) : item);
+
+export const sessionReducer = (state: SessionState, event: SessionEvent): SessionState => {
+  switch (event.type) {
+    case 'start': {
+      const minLevel = event.minLevel ?? MIN_LEVEL;
+      return {
+        ...initialSessionState, level: Math.max(state.level, minLevel) as DifficultyLevel, autoLevel: state.autoLevel, minLevel, step: 'practice',
+        sessionId: event.sessionId, chunks: event.chunks, chunkSegments: event.chunkSegments
+      };
+    }
+    case 'resume': {
+      const { session, stillQueued, recovered } = event;
+      const known = new Set(session.sessionResults.map(r => r.index));
+      const results = [...session.sessionResults, ...recovered.filter(r => !known.has(r.index))].sort(byIndex);
+      // Chunks that left the queue without a result failed their checks while the session was away.
+      const failed = session.queuedChunks.filter(i => !stillQueued.includes(i) && !results.some(r => r.index === i));
+      const resumed: SessionState = {
+        ...initialSessionState, ...session, sessionResults: results,
+        queuedChunks: session.queuedChunks.filter(i => stillQueued.includes(i)),
+        retakeChunks: [...session.retakeChunks, ...failed],
+        step: session.awaitingPending ? 'results' : 'practice'
+      };
+      if (!resumed.awaitingPending || resumed.queuedChunks.length > 0) return resumed;
+      return resumed.retakeChunks.length > 0 ? returnToRetake(resumed, resumed.retakeChunks[0]) : complete(resumed, results);
+    }
+    case 'setLevel':
+      return { ...state, level: event.level };
+    case 'setAutoLevel':
+      return { ...state, autoLevel: event.autoLevel };
+    case 'record':
+      return state.step === 'practice' ? { ...state, step: 'processing' } : state;
+    case 'transcribed':
+      return { ...state, step: 'correction', reviewItems: event.items };
+    case 'fail':
+      return { ...state, step: 'practice', reviewItems: [] };
+    case 'editWord': {
+      const spoken = event.spoken.trim() || "...";
+      return { ...state, reviewItems: updateItem(state.reviewItems, event.index, item => ({ ...item, spoken, ...scoreWord(item.original, spoken, event.matchWords), editing: false })) };
+    }
+    case 'toggleEdit':
+      return { ...state, reviewItems: updateItem(state.reviewItems, event.index, item => ({ ...item, editing: !item.editing })) };
+    case 'dismissWord':
+      return { ...state, reviewItems: state.reviewItems.filter((_, i) => i !== event.index) };
+    case 'finishChunk': {
+      const level = state.autoLevel ? Math.max(nextLevel(state.level, event.result.accuracy), state.minLevel) as DifficultyLevel : state.level;
+      return advance(state, [...state.sessionResults, event.result].sort(byIndex), level);
+    }
+    case 'queued':
+      // The chunk has no score yet, so the level stays where it is.
+      return advance({ ...state, queuedChunks: [...state.queuedChunks, state.currentChunkIdx] }, state.sessionResults, state.level);
+    case 'queuedResult': {
+      if (!state.queuedChunks.includes(event.result.index)) return state;
+      const queuedChunks = state.queuedChunks.filter(i => i !== event.result.index);
+      const results = [...state.sessionResults, event.result].sort(byIndex);
+      if (state.awaitingPending && queuedChunks.length === 0) return complete({ ...state, queuedChunks }, results);
+      return { ...state, queuedChunks, sessionResults: results };
+    }
+    case 'queuedFailed': {
+      if (!state.queuedChunks.includes(event.index)) return state;
+      const failed = { ...state, queuedChunks: state.queuedChunks.filter(i => i !== event.index), retakeChunks: [...state.retakeChunks, event.index] };
+      // Mid-session the chunk comes round again once the others are done; with everything else recited, go straight to it.
+      return state.awaitingPending ? returnToRetake(failed, event.index) : failed;
+    }
+    case 'retake':
+      return state.step === 'correction' || state.step === 'processing' ? { ...state, step: 'practice', reviewItems: [] } : state;
+    case 'leave':
+      return { ...state, step: 'setup', reviewItems: [] };
+    case 'abandon':
+      return { ...initialSessionState, level: state.level, autoLevel: state.autoLevel };
+    case 'showView':
+      return { ...state, step: event.view, viewReturn: state.step };
+    case 'closeView':
+      return { ...state, step: state.viewReturn };
+  }
+};
+
+/** True while a session has unfinished work worth saving. */
+export const isSessionInProgress = (state: SessionState): boolean =>
+  state.chunks.length > 0 && state.completion === null
+  && (state.step === 'practice' || state.step === 'processing' || state.step === 'correction' || state.awaitingPending);
@@ -0,0 +1,34 @@
+import { WordTiming } from './transcription';
+
+export interface Hesitation {
+  word: string;
+  pause: number;
+}
+
+export interface FluencyMetrics {
+  wordsPerMinute: number;
+  pauseCount: number;
+  longestPause: number;
+  hesitations: Hesitation[];
+}
+
+/** A gap this long between words counts as a pause. */
+export const PAUSE_SECONDS = 1;
+/** A stall this long before a word marks it as shakily recalled, even when it was right. */
+export const HESITATION_SECONDS = 3;
+
+/** Silence before each spoken word; the first word's lead-in is not counted. */
+export const gapsBefore = (timings: WordTiming[]): number[] =>
+  timings.map((t, i) => i === 0 ? 0 : Math.max(0, t.start - timings[i - 1].end));
+
+export const computeFluency = (words: { word: string; pauseBefore?: number }[], spokenCount: number, activeSeconds: number): FluencyMetrics => {
+  const pauses = words.map(w => w.pauseBefore ?? 0).filter(p => p >= PAUSE_SECONDS);
+  return {
+    wordsPerMinute: activeSeconds > 0 ? Math.round((spokenCount / activeSeconds) * 60) : 0,
+    pauseCount: pauses.length,
+    longestPause: Math.round(pauses.reduce((a, b) => Math.max(a, b), 0) * 10) / 10,
+    hesitations: words
+      .filter(w => (w.pauseBefore ?? 0) >= HESITATION_SECONDS)
+      .map(w => ({ word: w.word, pause: Math.round((w.pauseBefore ?? 0) * 10) / 10 }))
+  };
+};
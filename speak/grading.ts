@@ -0,0 +1,92 @@
+import { WordMatcher } from './alignment';
+import { WordClass } from './wordClasses';
+
+export type GradingMode = 'verbatim' | 'gist';
+
+interface GradingProfile {
+  weights: Record<WordClass, number>;
+  /** Credit for a word recited in the wrong place. */
+  reorderCredit: number;
+  /** Whether close matches count in full rather than for their partial credit. */
+  fullCloseCredit: boolean;
+}
+
+export const GRADING_PROFILES: Record<GradingMode, GradingProfile> = {
+  verbatim: { weights: { function: 0.5, content: 1, key: 2 }, reorderCredit: 0.5, fullCloseCredit: false },
+  gist: { weights: { function: 0, content: 1, key: 2 }, reorderCredit: 1, fullCloseCredit: true }
+};
+
+export const GRADING_MODES: { mode: GradingMode; label: string; description: string }[] = [
+  { mode: 'verbatim', label: 'Verbatim', description: 'Every word, in order' },
+  { mode: 'gist', label: 'Gist', description: 'Key words and meaning' }
+];
+
+/** Shortest run of words that counts as a moved phrase rather than a coincidence. */
+const MIN_REORDER_RUN = 3;
+
+const STORAGE_PREFIX = 'recallix.speak.grading.';
+
+export const loadGradingMode = (memorizationId: string): GradingMode =>
+  localStorage.getItem(STORAGE_PREFIX + memorizationId) === 'gist' ? 'gist' : 'verbatim';
+
+export const saveGradingMode = (memorizationId: string, mode: GradingMode) => {
+  localStorage.setItem(STORAGE_PREFIX + memorizationId, mode);
+};
+
+interface AlignedItem {
+  original: string;
+  spoken: string;
+  status: string;
+}
+
+/**
+ * Finds phrases recited out of order. Alignment reports a moved line as
+ * misses in one place and wrong or extra words in another; where a run of
+ * missed expected words turns up intact among the unplaced spoken words, it
+ * was reordered rather than forgotten. Returns item indices on both sides.
+ */
+export const findReordered = (items: AlignedItem[], matches: WordMatcher): { expected: Set<number>; spoken: Set<number> } => {
+  const expected = new Set<number>();
+  const spoken = new Set<number>();
+  const unplacedSpoken = items.map((item, i) => ({ item, i })).filter(({ item }) => item.status === 'substituted' || item.status === 'inserted');
+
+  const runs: number[][] = [];
+  let run: number[] = [];
+  items.forEach((item, i) => {
+    if (item.status === 'inserted') return;
+    if (item.status === 'substituted' || item.status === 'omitted') { run.push(i); return; }
+    if (run.length > 0) runs.push(run);
+    run = [];
+  });
+  if (run.length > 0) runs.push(run);
+
+  runs.filter(r => r.length >= MIN_REORDER_RUN).forEach(r => {
+    let found = true;
+    while (found) {
+      found = false;
+      let best = { length: 0, from: 0, at: 0 };
+      for (let from = 0; from < r.length; from++) {
+        if (expected.has(r[from])) continue;
+        for (let at = 0; at < unplacedSpoken.length; at++) {
+          let length = 0;
+          while (
+            from + length < r.length && at + length < unplacedSpoken.length &&
+            !expected.has(r[from + length]) && !spoken.has(unplacedSpoken[at + length].i) &&
+            // The item's own spoken word didn't match its original, so it can't count as the same word moved.
+            unplacedSpoken[at + length].i !== r[from + length] &&
+            matches(items[r[from + length]].original, unplacedSpoken[at + length].item.spoken)
+          ) length++;
+          if (length > best.length) best = { length, from, at };
+        }
+      }
+      if (best.length >= MIN_REORDER_RUN) {
+        for (let k = 0; k < best.length; k++) {
+          expected.add(r[best.from + k]);
+          spoken.add(unplacedSpoken[best.at + k].i);
+        }
+        found = true;
+      }
+    }
+  });
+  return { expected, spoken };
+};
@@ -0,0 +1,71 @@
+export type DifficultyLevel = 1 | 2 | 3 | 4 | 5;
+
+/** Returns what to show for one word, or null to hide it. */
+export type HintStrategy = (word: string, index: number, startsSentence: boolean) => string | null;
+
+export interface LevelDefinition {
+  level: DifficultyLevel;
+  name: string;
+  /** Null means pure recall: nothing is shown. */
+  hint: HintStrategy | null;
+}
+
+/** One underscore per letter in any script, with its accents or vowel signs folded in. */
+const blank = (word: string) => word.replace(/[\p{L}\p{N}]\p{M}*/gu, '_');
+
+export const fullText: HintStrategy = (word) => word;
+export const everyOtherWord: HintStrategy = (word, index) => index % 2 === 0 ? word : blank(word);
+export const firstLetters: HintStrategy = (word) => {
+  // Keep leading punctuation ("¿", quotes) and the whole first letter, marks included.
+  const head = word.match(/^[^\p{L}\p{N}]*[\p{L}\p{N}]\p{M}*/u)?.[0] ?? word;
+  return head + blank(word.slice(head.length));
+};
+export const sentenceStarts: HintStrategy = (word, _index, startsSentence) => startsSentence ? word : null;
+
+export const DIFFICULTY_LEVELS: LevelDefinition[] = [
+  { level: 1, name: 'Full Text', hint: fullText },
+  { level: 2, name: 'Half Blank', hint: everyOtherWord },
+  { level: 3, name: 'First Letters', hint: firstLetters },
+  { level: 4, name: 'Sentence Starts', hint: sentenceStarts },
+  { level: 5, name: 'Pure Recall', hint: null }
+];
+
+export const MIN_LEVEL: DifficultyLevel = 1;
+export const MAX_LEVEL: DifficultyLevel = 5;
+
+export const levelDefinition = (level: number): LevelDefinition =>
+  DIFFICULTY_LEVELS.find(d => d.level === level) ?? DIFFICULTY_LEVELS[DIFFICULTY_LEVELS.length - 1];
+
+const SENTENCE_END = /[.!?]["'’”)]*$/;
+
+/**
+ * Renders a hint for the text, keeping its line breaks. Runs of hidden words
+ * collapse into a single ellipsis so sentence-start hints stay readable.
+ */
+export const applyHint = (text: string, strategy: HintStrategy, sentenceEnd: RegExp = SENTENCE_END): string => {
+  let index = 0;
+  let startsSentence = true;
+  let hiding = false;
+  return text.split(/(\s+)/).map(part => {
+    if (part.length === 0 || /^\s+$/.test(part)) return hiding ? '' : part;
+    const shown = strategy(part, index++, startsSentence);
+    startsSentence = sentenceEnd.test(part);
+    if (shown === null) {
+      if (hiding) return '';
+      hiding = true;
+      return '… ';
+    }
+    hiding = false;
+    return shown;
+  }).join('').trim();
+};
+
+export const PROMOTE_AT = 90;
+export const DEMOTE_BELOW = 60;
+
+/** Moves one rung up the ladder after a strong chunk and one down after a weak one. */
+export const nextLevel = (level: DifficultyLevel, accuracy: number): DifficultyLevel => {
+  if (accuracy >= PROMOTE_AT && level < MAX_LEVEL) return (level + 1) as DifficultyLevel;
+  if (accuracy < DEMOTE_BELOW && level > MIN_LEVEL) return (level - 1) as DifficultyLevel;
+  return level;
+};
@@ -0,0 +1,113 @@
+import { ChunkResult, TextSegment } from './types';
+import { segmentKey } from './segmentation';
+
+export interface RecitalAttempt extends ChunkResult {
+  id?: number;
+  memorizationId: string;
+  sessionId: string;
+  recordedAt: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  recordedAt: number;
+  level: number;
+  accuracy: number;
+  secondsPerParagraph: number;
+  paragraphs: number;
+}
+
+const DB_NAME = 'recallix-speak';
+const DB_VERSION = 4;
+const ATTEMPTS = 'attempts';
+export const RECORDINGS = 'recordings';
+export const PENDING = 'pendingTranscriptions';
+export const STRUCTURE = 'structureAttempts';
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const openSpeakDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ATTEMPTS)) {
+        const store = db.createObjectStore(ATTEMPTS, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('memorizationId', 'memorizationId');
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS)) db.createObjectStore(RECORDINGS);
+      if (!db.objectStoreNames.contains(PENDING)) {
+        const store = db.createObjectStore(PENDING, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('memorizationId', 'memorizationId');
+      }
+      if (!db.objectStoreNames.contains(STRUCTURE)) {
+        const store = db.createObjectStore(STRUCTURE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('memorizationId', 'memorizationId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveAttempt = async (memorizationId: string, sessionId: string, result: ChunkResult): Promise<RecitalAttempt> => {
+  const attempt: RecitalAttempt = { ...result, memorizationId, sessionId, recordedAt: Date.now() };
+  const db = await openSpeakDb();
+  const id = await promisify(db.transaction(ATTEMPTS, 'readwrite').objectStore(ATTEMPTS).add(attempt));
+  return { ...attempt, id: id as number };
+};
+
+export const loadAttempts = async (memorizationId: string): Promise<RecitalAttempt[]> => {
+  const db = await openSpeakDb();
+  const attempts = await promisify(db.transaction(ATTEMPTS).objectStore(ATTEMPTS).index('memorizationId').getAll(memorizationId));
+  return (attempts as RecitalAttempt[]).sort((a, b) => a.recordedAt - b.recordedAt);
+};
+
+/** One summary per session and level, oldest first, for the accuracy and pace charts. */
+export const summarizeSessions = (attempts: RecitalAttempt[]): SessionSummary[] => {
+  const groups = new Map<string, RecitalAttempt[]>();
+  attempts.forEach(a => {
+    const key = `${a.sessionId}:${a.level}`;
+    groups.set(key, [...(groups.get(key) || []), a]);
+  });
+  return Array.from(groups.values()).map(group => ({
+    sessionId: group[0].sessionId,
+    recordedAt: group[0].recordedAt,
+    level: group[0].level,
+    accuracy: Math.round(group.reduce((a, b) => a + b.accuracy, 0) / group.length),
+    secondsPerParagraph: Math.round(group.reduce((a, b) => a + b.duration, 0) / group.length),
+    paragraphs: group.length
+  })).sort((a, b) => a.recordedAt - b.recordedAt);
+};
+
+export const mostMissedWords = (attempts: Pick<ChunkResult, 'missedWords'>[], limit = 10): { word: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  attempts.forEach(a => a.missedWords.forEach(w => {
+    const word = w.toLowerCase();
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }));
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+/**
+ * Accuracy over time for each of the current segments, so the history view can
+ * show which paragraphs are slipping. Attempts are matched by text, so ones
+ * recited under another segmentation mode are left out.
+ */
+export const segmentAccuracyTrend = (attempts: RecitalAttempt[], segments: TextSegment[]): Record<number, number[]> => {
+  const indexByKey = new Map(segments.map((segment, i) => [segmentKey(segment.text), i]));
+  const trend: Record<number, number[]> = {};
+  attempts.forEach(a => {
+    const index = indexByKey.get(segmentKey(a.expected));
+    if (index !== undefined) trend[index] = [...(trend[index] || []), a.accuracy];
+  });
+  return trend;
+};
@@ -0,0 +1,63 @@
+import { createWordMatcher, DEFAULT_MATCHER_TIERS, LANGUAGE_NEUTRAL_TIERS, WordMatchFn } from './matching';
+
+export interface LanguageProfile {
+  /** ISO 639-1 code, as Whisper expects it. */
+  code: string;
+  name: string;
+  /** BCP 47 tag for the browser's speech recognition and case folding. */
+  locale: string;
+  /** Punctuation that ends a sentence, for sentence-start hints. */
+  sentenceEnd: RegExp;
+}
+
+const LATIN_SENTENCE_END = /[.!?]["'’”»)]*$/;
+
+export const LANGUAGES: LanguageProfile[] = [
+  { code: 'en', name: 'English', locale: 'en-US', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'fr', name: 'Français', locale: 'fr-FR', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'es', name: 'Español', locale: 'es-ES', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'de', name: 'Deutsch', locale: 'de-DE', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'it', name: 'Italiano', locale: 'it-IT', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'pt', name: 'Português', locale: 'pt-PT', sentenceEnd: LATIN_SENTENCE_END },
+  // The Greek question mark looks like a semicolon and may be typed as one.
+  { code: 'el', name: 'Ελληνικά', locale: 'el-GR', sentenceEnd: /[.!;\u037E]["'’”»)]*$/ },
+  { code: 'ru', name: 'Русский', locale: 'ru-RU', sentenceEnd: LATIN_SENTENCE_END },
+  { code: 'hi', name: 'हिन्दी', locale: 'hi-IN', sentenceEnd: /[.!?।॥]["'’”)]*$/ }
+];
+
+export const languageProfile = (code: string): LanguageProfile =>
+  LANGUAGES.find(l => l.code === code) ?? LANGUAGES[0];
+
+/** Picks a default from the text's script; Latin-script languages can't be told apart this cheaply, so they default to English. */
+export const guessLanguage = (text: string): string => {
+  if (/\p{Script=Devanagari}/u.test(text)) return 'hi';
+  if (/\p{Script=Greek}/u.test(text)) return 'el';
+  if (/\p{Script=Cyrillic}/u.test(text)) return 'ru';
+  return 'en';
+};
+
+export interface LanguageSettings {
+  language: string;
+  ignoreDiacritics: boolean;
+}
+
+const STORAGE_PREFIX = 'recallix.speak.language.';
+
+export const loadLanguageSettings = (memorizationId: string, text: string): LanguageSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + memorizationId) || 'null');
+    if (stored && typeof stored.language === 'string') return { language: stored.language, ignoreDiacritics: !!stored.ignoreDiacritics };
+  } catch {
+    // Fall through to the guess.
+  }
+  return { language: guessLanguage(text), ignoreDiacritics: false };
+};
+
+export const saveLanguageSettings = (memorizationId: string, settings: LanguageSettings) => {
+  localStorage.setItem(STORAGE_PREFIX + memorizationId, JSON.stringify(settings));
+};
+
+export const createLanguageMatcher = ({ language, ignoreDiacritics }: LanguageSettings): WordMatchFn => {
+  const profile = languageProfile(language);
+  return createWordMatcher(profile.code === 'en' ? DEFAULT_MATCHER_TIERS : LANGUAGE_NEUTRAL_TIERS, { locale: profile.locale, ignoreDiacritics });
+};
@@ -0,0 +1,123 @@
+/** The parts of the Web Speech API used here, which TypeScript's DOM typings don't include. */
+interface RecognitionResultEvent {
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface RecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: RecognitionResultEvent) => void) | null;
+  onerror: ((e: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+export interface LiveRecognizerOptions {
+  lang?: string;
+  /** Called with the whole transcript so far (final plus interim words) on every recognition event. */
+  onTranscript: (text: string) => void;
+  onError?: (error: string) => void;
+}
+
+export interface LiveRecognizer {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  /** Stops listening and resolves with the final transcript once the browser has flushed its results. */
+  stop: () => Promise<string>;
+  abort: () => void;
+}
+
+type SpeechRecognitionCtor = new () => SpeechRecognitionLike;
+
+interface SpeechRecognitionWindow {
+  SpeechRecognition?: SpeechRecognitionCtor;
+  webkitSpeechRecognition?: SpeechRecognitionCtor;
+}
+
+const getRecognitionCtor = (): SpeechRecognitionCtor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as SpeechRecognitionWindow;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+};
+
+export const isLiveRecognitionSupported = () => !!getRecognitionCtor();
+
+export const createLiveRecognizer = ({ lang = 'en-US', onTranscript, onError }: LiveRecognizerOptions): LiveRecognizer => {
+  const Ctor = getRecognitionCtor();
+  if (!Ctor) throw new Error("Live recognition is not supported in this browser.");
+
+  let committed = "";
+  let sessionFinal = "";
+  let interim = "";
+  let listening = false;
+  let current: SpeechRecognitionLike | null = null;
+  let onStopped: ((text: string) => void) | null = null;
+
+  const transcript = () => [committed, sessionFinal, interim].filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+
+  const open = () => {
+    const rec = new Ctor();
+    rec.lang = lang;
+    rec.continuous = true;
+    rec.interimResults = true;
+    rec.onresult = (e) => {
+      let finals = "";
+      let pending = "";
+      for (let i = 0; i < e.results.length; i++) {
+        const result = e.results[i];
+        if (result.isFinal) finals += ` ${result[0].transcript}`;
+        else pending += ` ${result[0].transcript}`;
+      }
+      sessionFinal = finals.trim();
+      interim = pending.trim();
+      onTranscript(transcript());
+    };
+    rec.onerror = (e) => { if (e.error !== 'no-speech' && e.error !== 'aborted') onError?.(e.error); };
+    rec.onend = () => {
+      committed = transcript();
+      sessionFinal = "";
+      interim = "";
+      current = null;
+      // Browsers end "continuous" sessions after a stretch of silence; keep listening until told otherwise.
+      if (listening) open();
+      else if (onStopped) { onStopped(committed); onStopped = null; }
+    };
+    current = rec;
+    rec.start();
+  };
+
+  return {
+    start: () => {
+      committed = ""; sessionFinal = ""; interim = "";
+      listening = true;
+      open();
+    },
+    pause: () => {
+      listening = false;
+      current?.stop();
+    },
+    resume: () => {
+      listening = true;
+      if (!current) open();
+    },
+    stop: () => new Promise<string>((resolve) => {
+      listening = false;
+      if (!current) { resolve(transcript()); return; }
+      onStopped = resolve;
+      current.stop();
+    }),
+    abort: () => {
+      listening = false;
+      onStopped = null;
+      current?.abort();
+    }
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createWordMatcher, editDistance, isFullMatch, normalize, soundex } from './matching';
+
+const match = createWordMatcher();
+
+describe('normalize', () => {
+  it('drops punctuation and case but keeps letters from any script', () => {
+    expect(normalize('“Hello,”')).toBe('hello');
+    expect(normalize('Ὀδυσσεύς')).toBe('ὀδυσσεύσ');
+  });
+
+  it('folds diacritics only when asked', () => {
+    expect(normalize('café')).toBe('café');
+    expect(normalize('café', { ignoreDiacritics: true })).toBe('cafe');
+  });
+});
+
+describe('spelling variants', () => {
+  it('matches British and American spellings', () => {
+    expect(match('colour', 'color')).toEqual({ tier: 'variant', credit: 1 });
+    expect(match('realise', 'realize')).toEqual({ tier: 'variant', credit: 1 });
+    expect(match('travelled', 'traveled')).toEqual({ tier: 'variant', credit: 1 });
+    expect(match('cancelling', 'canceling')).toEqual({ tier: 'variant', credit: 1 });
+  });
+
+  it('matches archaic forms', () => {
+    expect(match("diseas'd", 'diseased')).toEqual({ tier: 'variant', credit: 1 });
+    expect(match("o'er", 'over')).toEqual({ tier: 'variant', credit: 1 });
+  });
+
+  it('does not treat different words with a doubled l as variants', () => {
+    expect(isFullMatch(match('filled', 'filed'))).toBe(false);
+    expect(isFullMatch(match('filling', 'filing'))).toBe(false);
+    expect(isFullMatch(match('stalled', 'staled'))).toBe(false);
+  });
+});
+
+describe('number words', () => {
+  it('matches digits and words for the same count', () => {
+    expect(match('three', '3')).toEqual({ tier: 'number', credit: 1 });
+    expect(match('twenty-one', '21')).toEqual({ tier: 'number', credit: 1 });
+  });
+
+  it('matches ordinal words and ordinal digits', () => {
+    expect(match('first', '1st')).toEqual({ tier: 'number', credit: 1 });
+    expect(match('twenty-second', '22nd')).toEqual({ tier: 'number', credit: 1 });
+  });
+
+  it('never matches an ordinal against a cardinal', () => {
+    expect(match('first', 'one').tier).toBe('none');
+    expect(match('second', 'two').tier).toBe('none');
+    expect(match('third', 'three').tier).not.toBe('number');
+    expect(match('1st', 'one').tier).toBe('none');
+    expect(match('first', '1').tier).toBe('none');
+    expect(match('twenty-first', 'twenty-one').tier).not.toBe('number');
+  });
+});
+
+describe('close matches', () => {
+  it('gives phonetic and small-edit matches part credit', () => {
+    expect(soundex('Robert')).toBe(soundex('Rupert'));
+    expect(match('thought', 'thougt')).toEqual({ tier: 'phonetic', credit: 0.75 });
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(isFullMatch(match('summer', 'sumer'))).toBe(false);
+  });
+
+  it('rejects unrelated words', () => {
+    expect(match('summer', 'winter')).toEqual({ tier: 'none', credit: 0 });
+    expect(match('summer', '...')).toEqual({ tier: 'none', credit: 0 });
+  });
+});
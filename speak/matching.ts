@@ -0,0 +1,186 @@
+export type MatchTier = 'exact' | 'variant' | 'number' | 'phonetic' | 'edit' | 'none';
+
+export interface WordMatch {
+  tier: MatchTier;
+  credit: number;
+}
+
+export interface MatcherTier {
+  tier: Exclude<MatchTier, 'none'>;
+  credit: number;
+  /** `norm` is the matcher's locale-aware normalize. */
+  test: (expected: string, spoken: string, norm: (s: string) => string) => boolean;
+}
+
+export interface NormalizeOptions {
+  /** BCP 47 tag used for case folding (Turkish dotted i, Greek final sigma). */
+  locale?: string;
+  /** Treat "é" and "e" as the same letter. */
+  ignoreDiacritics?: boolean;
+}
+
+/** Lowercases and keeps only letters, combining marks and digits from any script. */
+export const normalize = (s: string, { locale, ignoreDiacritics = false }: NormalizeOptions = {}) => {
+  const folded = ignoreDiacritics ? s.normalize('NFD').replace(/\p{M}/gu, '') : s.normalize('NFC');
+  return folded.toLocaleLowerCase(locale).replace(/[^\p{L}\p{M}\p{N}]/gu, '').replace(/ς/g, 'σ');
+};
+
+// --- Spelling variants ---
+
+const VARIANT_GROUPS: string[][] = [
+  ['thy', 'thine', 'thee', 'thou'],
+  ['o', 'oh'],
+  ['ok', 'okay'],
+  ['neer', 'never'],
+  ['oer', 'over'],
+  ['eer', 'ever'],
+  ['whilst', 'while'],
+  ['amongst', 'among'],
+  ['til', 'till', 'until']
+];
+
+/** British doubles the final l before -ed, -ing and -er where American doesn't; listed so "filled"/"filed" stay apart. */
+const DOUBLED_L_STEMS = ['travel', 'cancel', 'label', 'model', 'signal', 'marvel', 'fuel', 'quarrel', 'level', 'total', 'dial', 'channel', 'tunnel', 'counsel', 'duel', 'rival', 'shovel', 'grovel', 'revel', 'pedal', 'yodel', 'jewel'];
+DOUBLED_L_STEMS.forEach(stem => ['ed', 'ing', 'er'].forEach(suffix => VARIANT_GROUPS.push([`${stem}l${suffix}`, `${stem}${suffix}`])));
+
+const VARIANT_LOOKUP = new Map<string, number>();
+VARIANT_GROUPS.forEach((group, i) => group.forEach(w => VARIANT_LOOKUP.set(w, i)));
+
+/** Folds British/American and archaic spellings onto one form ("colour" -> "color", "diseas'd" -> "diseased"). */
+const canonicalSpelling = (word: string): string => {
+  const w = normalize(word.toLowerCase().replace(/['’]d$/, 'ed'));
+  return w
+    .replace(/^(\w{3,})our(s|ed|ing|ful|ite)?$/, '$1or$2')
+    .replace(/^(\w{3,})is(e|es|ed|ing|ation)$/, '$1iz$2')
+    .replace(/^(\w{2,})ys(e|es|ed|ing)$/, '$1yz$2')
+    .replace(/^(\w{2,}[^aeiou])re(s|d)?$/, '$1er$2');
+};
+
+const isSpellingVariant = (expected: string, spoken: string) => {
+  const e = canonicalSpelling(expected);
+  const s = canonicalSpelling(spoken);
+  if (!e || !s) return false;
+  if (e === s) return true;
+  const group = VARIANT_LOOKUP.get(e);
+  return group !== undefined && group === VARIANT_LOOKUP.get(s);
+};
+
+// --- Number words ---
+
+const CARDINALS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const ORDINALS = ['zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth', 'eleventh', 'twelfth'];
+const TENS: Record<string, number> = { twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90 };
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 };
+
+interface NumberWord {
+  value: number;
+  /** "first" and "1st" name a position, "one" and "1" a count; the two never match each other. */
+  ordinal: boolean;
+}
+
+const numberWord = (word: string): NumberWord | null => {
+  const w = normalize(word);
+  if (!w) return null;
+  const digits = w.match(/^(\d+)(st|nd|rd|th)?$/);
+  if (digits) return { value: parseInt(digits[1], 10), ordinal: !!digits[2] };
+  if (CARDINALS.includes(w)) return { value: CARDINALS.indexOf(w), ordinal: false };
+  if (ORDINALS.includes(w)) return { value: ORDINALS.indexOf(w), ordinal: true };
+  if (w in TENS) return { value: TENS[w], ordinal: false };
+  if (w in SCALES) return { value: SCALES[w], ordinal: false };
+  // Hyphenated compounds arrive with the hyphen stripped: "twentyone", "twentyfirst".
+  const tens = Object.keys(TENS).find(t => w.startsWith(t));
+  if (tens) {
+    const rest = w.slice(tens.length);
+    const cardinal = CARDINALS.indexOf(rest);
+    if (cardinal > 0 && cardinal < 10) return { value: TENS[tens] + cardinal, ordinal: false };
+    const ordinal = ORDINALS.indexOf(rest);
+    if (ordinal > 0 && ordinal < 10) return { value: TENS[tens] + ordinal, ordinal: true };
+  }
+  return null;
+};
+
+const isSameNumber = (expected: string, spoken: string) => {
+  const e = numberWord(expected);
+  const s = numberWord(spoken);
+  return e !== null && s !== null && e.value === s.value && e.ordinal === s.ordinal;
+};
+
+// --- Phonetic ---
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3', l: '4', m: '5', n: '5', r: '6'
+};
+
+export const soundex = (word: string): string => {
+  const w = normalize(word).replace(/[^a-z]/g, '');
+  if (!w) return '';
+  let code = w[0].toUpperCase();
+  let last = SOUNDEX_CODES[w[0]] || '';
+  for (let i = 1; i < w.length && code.length < 4; i++) {
+    const c = SOUNDEX_CODES[w[i]] || '';
+    if (c && c !== last) code += c;
+    // 'h' and 'w' do not separate letters with the same code; vowels do.
+    if (w[i] !== 'h' && w[i] !== 'w') last = c;
+  }
+  return code.padEnd(4, '0');
+};
+
+const isPhoneticMatch = (expected: string, spoken: string) => {
+  const e = normalize(expected);
+  const s = normalize(spoken);
+  // Short function words collide too easily ("the"/"to") to trust a sound key.
+  if (e.length < 4 || s.length < 4 || Math.abs(e.length - s.length) > 2) return false;
+  return soundex(e) === soundex(s);
+};
+
+// --- Edit distance ---
+
+export const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const isSmallEdit = (expected: string, spoken: string, norm: (s: string) => string) => {
+  const e = norm(expected);
+  const s = norm(spoken);
+  if (e.length < 4 || s.length < 4) return false;
+  return editDistance(e, s) <= (e.length >= 8 ? 2 : 1);
+};
+
+export const DEFAULT_MATCHER_TIERS: MatcherTier[] = [
+  { tier: 'exact', credit: 1, test: (e, s, norm) => !!norm(e) && norm(e) === norm(s) },
+  { tier: 'variant', credit: 1, test: isSpellingVariant },
+  { tier: 'number', credit: 1, test: isSameNumber },
+  { tier: 'phonetic', credit: 0.75, test: isPhoneticMatch },
+  { tier: 'edit', credit: 0.5, test: isSmallEdit }
+];
+
+/** Variant spellings, number words and Soundex are English-only; other languages keep exact and edit matching. */
+export const LANGUAGE_NEUTRAL_TIERS: MatcherTier[] = DEFAULT_MATCHER_TIERS.filter(t => t.tier === 'exact' || t.tier === 'edit');
+
+/** Tiers that count as a full hit rather than a close match. */
+export const isFullMatch = (match: WordMatch) => match.tier === 'exact' || match.tier === 'variant' || match.tier === 'number';
+
+export type WordMatchFn = (expected: string, spoken: string) => WordMatch;
+
+/**
+ * Builds a word matcher that walks the given tiers in order and returns the
+ * first one that accepts the pair, so callers can drop or reorder tiers.
+ */
+export const createWordMatcher = (tiers: MatcherTier[] = DEFAULT_MATCHER_TIERS, options: NormalizeOptions = {}): WordMatchFn => {
+  const norm = (s: string) => normalize(s, options);
+  return (expected, spoken) => {
+    if (!expected || !spoken || spoken === "...") return { tier: 'none', credit: 0 };
+    const hit = tiers.find(t => t.test(expected, spoken, norm));
+    return hit ? { tier: hit.tier, credit: hit.credit } : { tier: 'none', credit: 0 };
+  };
+};
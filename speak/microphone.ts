@@ -0,0 +1,107 @@
+import { createAudioContext } from './audioContext';
+
+export type MicErrorKind = 'denied' | 'no-device' | 'busy' | 'unsupported' | 'unknown';
+
+export type MicPermission = PermissionState | 'unknown';
+
+export const MIC_ERROR_MESSAGES: Record<MicErrorKind, { title: string; message: string }> = {
+  denied: { title: "Microphone Access Required", message: "Recallix needs microphone access to verify your recital. Please enable it in your browser settings and try again." },
+  'no-device': { title: "No Microphone Found", message: "We couldn't find a microphone. Plug one in, or pick a different input below, and try again." },
+  busy: { title: "Microphone In Use", message: "Another app or tab is using your microphone. Close it and try again." },
+  unsupported: { title: "Recording Unavailable", message: "This browser can't record audio here. Try a current browser, or open Recallix over https." },
+  unknown: { title: "Microphone Error", message: "Something went wrong starting the microphone. Try again, or pick a different input below." }
+};
+
+const DEVICE_KEY = 'recallix.speak.micDevice';
+
+/** Maps getUserMedia's DOMException names onto the cases the user can act on. */
+export const classifyMicError = (err: unknown): MicErrorKind => {
+  const name = (err as { name?: string } | null)?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+    case 'PermissionDeniedError':
+      return 'denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+    case 'DevicesNotFoundError':
+      return 'no-device';
+    case 'NotReadableError':
+    case 'AbortError':
+    case 'TrackStartError':
+      return 'busy';
+    default:
+      return typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia ? 'unsupported' : 'unknown';
+  }
+};
+
+export const queryMicPermission = async (): Promise<MicPermission> => {
+  try {
+    const status = await navigator.permissions.query({ name: 'microphone' as PermissionName });
+    return status.state;
+  } catch {
+    // Firefox and older Safari don't expose the microphone permission.
+    return 'unknown';
+  }
+};
+
+/** Device labels stay empty until the user has granted access at least once. */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId !== '');
+};
+
+export const loadMicDevice = (): string | null => localStorage.getItem(DEVICE_KEY);
+
+export const saveMicDevice = (deviceId: string | null) => {
+  if (deviceId) localStorage.setItem(DEVICE_KEY, deviceId);
+  else localStorage.removeItem(DEVICE_KEY);
+};
+
+/**
+ * Opens the chosen input, falling back to the default one when the saved
+ * device has been unplugged since it was picked.
+ */
+export const openMicrophone = async (deviceId: string | null): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new DOMException("getUserMedia unavailable", 'NotSupportedError');
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (err) {
+      if (classifyMicError(err) !== 'no-device') throw err;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: true });
+};
+
+export interface LevelMeter {
+  stop: () => void;
+}
+
+/** Reports the stream's RMS level, 0-1, once per animation frame. */
+export const createLevelMeter = (stream: MediaStream, onLevel: (level: number) => void): LevelMeter => {
+  const ctx = createAudioContext();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let frame = 0;
+  const tick = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    onLevel(Math.sqrt(sum / samples.length));
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+  return {
+    stop: () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      ctx.close();
+      onLevel(0);
+    }
+  };
+};
@@ -0,0 +1,61 @@
+import { tokenizeText } from '../../../utils';
+
+export type PoemGrouping = 'sonnet' | 'quatrain' | 'couplet';
+
+export interface LineResult {
+  /** Line number within the whole poem, zero-based. */
+  lineIndex: number;
+  text: string;
+  accuracy: number;
+}
+
+export const POEM_GROUPINGS: { grouping: PoemGrouping; label: string }[] = [
+  { grouping: 'sonnet', label: '4+4+4+2' },
+  { grouping: 'quatrain', label: 'Quatrains' },
+  { grouping: 'couplet', label: 'Couplets' }
+];
+
+/**
+ * Returns the size of each group of lines. A sonnet is three quatrains and a
+ * closing couplet; poems of any other length fall back to quatrains with
+ * whatever is left over as the last group.
+ */
+export const poemGroupSizes = (lineCount: number, grouping: PoemGrouping): number[] => {
+  if (grouping === 'sonnet' && lineCount === 14) return [4, 4, 4, 2];
+  const size = grouping === 'couplet' ? 2 : 4;
+  const sizes: number[] = [];
+  for (let left = lineCount; left > 0; left -= size) sizes.push(Math.min(size, left));
+  return sizes;
+};
+
+export const groupPoemLines = (lines: string[], grouping: PoemGrouping): { lines: string[]; firstLine: number }[] => {
+  let cursor = 0;
+  return poemGroupSizes(lines.length, grouping).map(size => {
+    const group = { lines: lines.slice(cursor, cursor + size), firstLine: cursor };
+    cursor += size;
+    return group;
+  });
+};
+
+/** Splits per-word credits (in expected-word order) back onto the lines they came from. */
+export const scoreLines = (lines: string[], firstLine: number, wordCredits: number[]): LineResult[] => {
+  let cursor = 0;
+  return lines.map((text, i) => {
+    const count = tokenizeText(text).filter(t => t.isWord).length;
+    const credits = wordCredits.slice(cursor, cursor + count);
+    cursor += count;
+    const accuracy = count > 0 ? Math.round((credits.reduce((a, b) => a + b, 0) / count) * 100) : 100;
+    return { lineIndex: firstLine + i, text, accuracy };
+  });
+};
+
+/** Lowest-scoring lines across attempts; a line recited more than once keeps its average. */
+export const weakestLines = (results: LineResult[], limit = 5): LineResult[] => {
+  const byLine = new Map<number, LineResult[]>();
+  results.forEach(r => byLine.set(r.lineIndex, [...(byLine.get(r.lineIndex) || []), r]));
+  return Array.from(byLine.values())
+    .map(group => ({ ...group[0], accuracy: Math.round(group.reduce((a, b) => a + b.accuracy, 0) / group.length) }))
+    .filter(r => r.accuracy < 100)
+    .sort((a, b) => a.accuracy - b.accuracy || a.lineIndex - b.lineIndex)
+    .slice(0, limit);
+};
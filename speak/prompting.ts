@@ -0,0 +1,92 @@
+import { TextSegment } from './types';
+import { closingLine } from './segmentation';
+
+export type PromptTiming = 'off' | 'on-request' | 'auto';
+
+export interface PromptSettings {
+  timing: PromptTiming;
+  /** Silence before an automatic prompt, in 'auto' timing. */
+  silenceSeconds: number;
+}
+
+export const PROMPT_TIMINGS: { timing: PromptTiming; label: string }[] = [
+  { timing: 'off', label: 'Off' },
+  { timing: 'on-request', label: 'On Request' },
+  { timing: 'auto', label: 'When I Stall' }
+];
+
+export const SILENCE_OPTIONS = [3, 5, 8, 12];
+
+/** Words fed per prompt from inside the chunk. */
+export const PROMPT_WORDS = 3;
+/** Accuracy points each prompt costs the chunk. */
+export const PROMPT_PENALTY = 5;
+
+const DEFAULT_SETTINGS: PromptSettings = { timing: 'off', silenceSeconds: 5 };
+const STORAGE_KEY = 'recallix.speak.prompting';
+
+export const loadPromptSettings = (): PromptSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const savePromptSettings = (settings: PromptSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** The line that leads into a segment: the closing line of the one before it. */
+export const previousLine = (segments: TextSegment[], segmentIndex: number, sentenceEnd: RegExp): string | undefined => {
+  const previous = segments[segmentIndex - 1];
+  return previous ? closingLine(previous, sentenceEnd) : undefined;
+};
+
+interface PromptContext {
+  words: string[];
+  previousLine?: string;
+  /** Words of the chunk already recited, when live recognition knows; null otherwise. */
+  recitedWords: number | null;
+  promptsGiven: number;
+}
+
+/**
+ * What to say next. The first prompt before any words are recited is the
+ * lead-in line; after that the learner is fed the next few words, from where
+ * live recognition says they stopped or, without it, a few more each time.
+ */
+export const nextPrompt = ({ words, previousLine, recitedWords, promptsGiven }: PromptContext): string | null => {
+  const leadIn = previousLine && (recitedWords ?? 0) === 0;
+  if (leadIn && promptsGiven === 0) return previousLine;
+  if (recitedWords !== null && recitedWords > 0) {
+    const next = words.slice(recitedWords, recitedWords + PROMPT_WORDS);
+    return next.length > 0 ? next.join(' ') : null;
+  }
+  const wordPrompts = promptsGiven - (previousLine ? 1 : 0) + 1;
+  const count = Math.min(words.length, wordPrompts * PROMPT_WORDS);
+  return count > 0 ? words.slice(0, count).join(' ') : null;
+};
+
+export const promptedAccuracy = (accuracy: number, prompts: number) => Math.max(0, accuracy - prompts * PROMPT_PENALTY);
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Speaks in a voice for the text's language when the browser has one; resolves once it has finished. */
+export const speakPrompt = (text: string, locale: string): Promise<void> => new Promise(resolve => {
+  const synth = window.speechSynthesis;
+  synth.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale;
+  const language = locale.split('-')[0];
+  const voice = synth.getVoices().find(v => v.lang === locale) ?? synth.getVoices().find(v => v.lang.split('-')[0] === language);
+  if (voice) utterance.voice = voice;
+  utterance.rate = 0.9;
+  utterance.onend = () => resolve();
+  utterance.onerror = () => resolve();
+  synth.speak(utterance);
+});
+
+export const cancelPrompt = () => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
@@ -0,0 +1,85 @@
+import { openSpeakDb, RECORDINGS } from './history';
+
+export interface Recording {
+  blob: Blob;
+  /** Recording length in seconds, as counted while the mic was live. */
+  duration: number;
+  /** When it was written to IndexedDB; recordings kept only in memory have none. */
+  savedAt?: number;
+}
+
+/** Saved recordings older than this are pruned when the recital screen opens. */
+export const RECORDING_MAX_AGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const memory = new Map<string, Recording>();
+
+export const recordingKey = (memorizationId: string, sessionId: string, segmentIndex: number) => `${memorizationId}:${sessionId}:${segmentIndex}`;
+
+/** Keeps the recording for this page's lifetime and, when asked, in IndexedDB as well. */
+export const keepRecording = async (key: string, recording: Recording, persist: boolean): Promise<void> => {
+  memory.set(key, recording);
+  if (!persist) return;
+  const db = await openSpeakDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(RECORDINGS, 'readwrite');
+    tx.objectStore(RECORDINGS).put({ ...recording, savedAt: Date.now() }, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getRecording = async (key: string): Promise<Recording | null> => {
+  const cached = memory.get(key);
+  if (cached) return cached;
+  const db = await openSpeakDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(RECORDINGS).objectStore(RECORDINGS).get(key);
+    request.onsuccess = () => {
+      if (request.result) memory.set(key, request.result);
+      resolve(request.result ?? null);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Deletes saved recordings matching `shouldDelete`, resolving to how many went. */
+const deleteWhere = async (range: IDBKeyRange | null, shouldDelete: (recording: Recording) => boolean): Promise<number> => {
+  const db = await openSpeakDb();
+  return new Promise((resolve, reject) => {
+    let deleted = 0;
+    const tx = db.transaction(RECORDINGS, 'readwrite');
+    const request = tx.objectStore(RECORDINGS).openCursor(range);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (shouldDelete(cursor.value)) {
+        memory.delete(String(cursor.key));
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(deleted);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/** Recordings saved before savedAt was stamped count as expired, since their age is unknown. */
+export const pruneRecordings = (maxAgeDays = RECORDING_MAX_AGE_DAYS, now = Date.now()): Promise<number> =>
+  deleteWhere(null, recording => (recording.savedAt ?? 0) < now - maxAgeDays * DAY_MS);
+
+export const deleteRecordings = (memorizationId: string): Promise<number> => {
+  Array.from(memory.keys()).filter(key => key.startsWith(`${memorizationId}:`)).forEach(key => memory.delete(key));
+  return deleteWhere(IDBKeyRange.bound(`${memorizationId}:`, `${memorizationId}:\uffff`), () => true);
+};
+
+/**
+ * Where a spoken word roughly starts: the provider's timestamp when there is
+ * one, otherwise its share of the recording by position in the transcript.
+ */
+export const estimateWordStart = (spokenIndex: number, spokenCount: number, duration: number, timings?: { start: number }[]): number => {
+  if (timings?.[spokenIndex]) return timings[spokenIndex].start;
+  if (spokenCount === 0) return 0;
+  return (spokenIndex / spokenCount) * duration;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Assignment } from './assignment';
+import { RecitalAttempt } from './history';
+import { buildReport, classReportToCsv, parseReport, reportToCsv, reportToJson } from './report';
+import { segmentKey, segmentText } from './segmentation';
+
+const TEXT = 'The first paragraph.\n\nThe second paragraph.';
+const segments = segmentText(TEXT);
+
+const attempt = (expected: string, accuracy: number, recordedAt: number, extra: Partial<RecitalAttempt> = {}): RecitalAttempt => ({
+  index: 0, segmentIndex: 0, expected, spoken: expected, accuracy,
+  missedWords: [], substitutedWords: [], omittedWords: [], insertedWords: [],
+  duration: 10, level: 3, memorizationId: 'm1', sessionId: `s${recordedAt}`, recordedAt, ...extra
+});
+
+const assignment: Assignment = { memorizationId: 'm1', title: 'Test', requiredLevel: 3, targetAccuracy: 80, assignedAt: 100, learner: 'Sam' };
+
+describe('buildReport', () => {
+  it('summarises attempts per paragraph, matched by text', () => {
+    const report = buildReport({ memorizationId: 'm1', title: 'Test', segments, attempts: [
+      attempt('The second paragraph.', 60, 1, { missedWords: ['second'] }),
+      attempt('The second paragraph.', 90, 2),
+      attempt('The first paragraph.', 70, 3)
+    ] });
+    expect(report.paragraphs.map(p => p.title)).toEqual(['Paragraph 1', 'Paragraph 2']);
+    expect(report.paragraphs[1]).toMatchObject({
+      segmentKey: segmentKey('The second paragraph.'),
+      attempts: 2, bestAccuracy: 90, latestAccuracy: 90,
+      missedWords: [{ word: 'second', count: 1 }]
+    });
+    expect(report.targetMet).toBeUndefined();
+  });
+
+  it('leaves attempts recited under another segmentation out of the paragraphs but not the sessions', () => {
+    const report = buildReport({ memorizationId: 'm1', title: 'Test', segments, attempts: [attempt(TEXT, 80, 1)] });
+    expect(report.paragraphs).toEqual([]);
+    expect(report.sessions).toHaveLength(1);
+  });
+
+  it('counts only attempts made for the assignment', () => {
+    const report = buildReport({ memorizationId: 'm1', title: 'Test', segments, assignment, attempts: [
+      attempt('The first paragraph.', 95, 50),
+      attempt('The first paragraph.', 85, 150, { level: 2 }),
+      attempt('The first paragraph.', 75, 200)
+    ] });
+    expect(report.learner).toBe('Sam');
+    expect(report.attempts).toHaveLength(1);
+    expect(report.paragraphs[0]).toMatchObject({ attempts: 1, latestAccuracy: 75, targetMet: false });
+  });
+
+  it('meets the assignment only once every paragraph reaches the target', () => {
+    const first = attempt('The first paragraph.', 90, 150);
+    const partial = buildReport({ memorizationId: 'm1', title: 'Test', segments, assignment, attempts: [first] });
+    expect(partial.targetMet).toBe(false);
+    const complete = buildReport({ memorizationId: 'm1', title: 'Test', segments, assignment, attempts: [first, attempt('The second paragraph.', 80, 160)] });
+    expect(complete.targetMet).toBe(true);
+  });
+});
+
+describe('report export', () => {
+  const report = buildReport({ memorizationId: 'm1', title: 'Test', segments, assignment, attempts: [
+    attempt('The first paragraph.', 90, 150, { missedWords: ['first', 'the'] })
+  ] });
+
+  it('writes a paragraph row per paragraph in CSV', () => {
+    expect(reportToCsv(report).split('\n')).toEqual([
+      'Paragraph,Attempts,Best accuracy,Latest accuracy,Target met,Missed words',
+      'Paragraph 1,1,90,90,yes,first (1); the (1)'
+    ]);
+  });
+
+  it('quotes cells that need it and names the learner in class CSV', () => {
+    const named = { ...report, learner: 'Doe, Jane' };
+    expect(classReportToCsv([named, { ...report, learner: undefined }]).split('\n').slice(1)).toEqual([
+      '"Doe, Jane",Paragraph 1,1,90,90,yes,first (1); the (1)',
+      'Unnamed,Paragraph 1,1,90,90,yes,first (1); the (1)'
+    ]);
+  });
+
+  it('reads back its own JSON and rejects anything else', () => {
+    expect(parseReport(reportToJson(report))).toEqual(report);
+    expect(parseReport('{"version":2,"paragraphs":[]}')).toBeNull();
+    expect(parseReport('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { Assignment } from './assignment';
+import { mostMissedWords, RecitalAttempt, SessionSummary, summarizeSessions } from './history';
+import { segmentKey } from './segmentation';
+import { TextSegment } from './types';
+
+export interface ParagraphReport {
+  segmentIndex: number;
+  /** Identifies the paragraph across learners' reports, whatever its position or name. */
+  segmentKey: string;
+  title: string;
+  attempts: number;
+  bestAccuracy: number;
+  latestAccuracy: number;
+  missedWords: { word: string; count: number }[];
+  /** Latest accuracy reached the assignment's target, when there is one. */
+  targetMet?: boolean;
+}
+
+export interface RecitalReport {
+  version: 1;
+  memorizationId: string;
+  title: string;
+  learner?: string;
+  assignment?: Assignment;
+  generatedAt: number;
+  paragraphs: ParagraphReport[];
+  sessions: SessionSummary[];
+  /** Every counted attempt, so a teacher can re-derive anything above. */
+  attempts: RecitalAttempt[];
+  targetMet?: boolean;
+}
+
+interface ReportInput {
+  memorizationId: string;
+  title: string;
+  attempts: RecitalAttempt[];
+  /** The paragraphs as currently segmented; attempts are matched to them by text. */
+  segments: TextSegment[];
+  assignment?: Assignment | null;
+}
+
+/**
+ * Summarises a learner's attempts per paragraph. With an assignment, only
+ * attempts made after it was accepted and at or above its level count.
+ * Attempts recited under another segmentation mode still count towards the
+ * sessions but match no paragraph.
+ */
+export const buildReport = ({ memorizationId, title, attempts, segments, assignment }: ReportInput): RecitalReport => {
+  const counted = assignment
+    ? attempts.filter(a => a.recordedAt >= assignment.assignedAt && a.level >= assignment.requiredLevel)
+    : attempts;
+  const indexByKey = new Map(segments.map((segment, i) => [segmentKey(segment.text), i]));
+  const bySegment = new Map<number, RecitalAttempt[]>();
+  counted.forEach(a => {
+    const segmentIndex = indexByKey.get(segmentKey(a.expected));
+    if (segmentIndex !== undefined) bySegment.set(segmentIndex, [...(bySegment.get(segmentIndex) || []), a]);
+  });
+  const paragraphs: ParagraphReport[] = Array.from(bySegment.entries()).sort(([a], [b]) => a - b).map(([segmentIndex, list]) => {
+    const latestAccuracy = list[list.length - 1].accuracy;
+    return {
+      segmentIndex,
+      segmentKey: segmentKey(segments[segmentIndex].text),
+      title: segments[segmentIndex].name,
+      attempts: list.length,
+      bestAccuracy: Math.max(...list.map(a => a.accuracy)),
+      latestAccuracy,
+      missedWords: mostMissedWords(list, 10),
+      targetMet: assignment ? latestAccuracy >= assignment.targetAccuracy : undefined
+    };
+  });
+  // Every paragraph has to be recited, not just the ones attempted so far.
+  const targetMet = assignment
+    ? segments.length > 0 && segments.every((_, i) => paragraphs.find(p => p.segmentIndex === i)?.targetMet)
+    : undefined;
+  return {
+    version: 1, memorizationId, title, learner: assignment?.learner, assignment: assignment ?? undefined,
+    generatedAt: Date.now(), paragraphs, sessions: summarizeSessions(counted), attempts: counted, targetMet
+  };
+};
+
+export const reportToJson = (report: RecitalReport): string => JSON.stringify(report, null, 2);
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+const PARAGRAPH_HEADER = ['Paragraph', 'Attempts', 'Best accuracy', 'Latest accuracy', 'Target met', 'Missed words'];
+
+const paragraphRow = (p: ParagraphReport) => [
+  p.title, p.attempts, p.bestAccuracy, p.latestAccuracy,
+  p.targetMet === undefined ? '' : p.targetMet ? 'yes' : 'no',
+  p.missedWords.map(m => `${m.word} (${m.count})`).join('; ')
+];
+
+export const reportToCsv = (report: RecitalReport): string => toCsv([PARAGRAPH_HEADER, ...report.paragraphs.map(paragraphRow)]);
+
+/** One row per learner and paragraph, for a teacher collecting several reports. */
+export const classReportToCsv = (reports: RecitalReport[]): string =>
+  toCsv([['Learner', ...PARAGRAPH_HEADER], ...reports.flatMap(r => r.paragraphs.map(p => [r.learner || 'Unnamed', ...paragraphRow(p)]))]);
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+/** A self-contained page meant for printing or saving as PDF from the browser. */
+export const reportToHtml = (report: RecitalReport): string => {
+  const { assignment } = report;
+  const rows = report.paragraphs.map(p => `<tr>${paragraphRow(p).map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('');
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)} - Recital Report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 32px; color: #111827; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+p { margin: 2px 0; color: #4b5563; font-size: 13px; }
+table { border-collapse: collapse; width: 100%; margin-top: 16px; font-size: 12px; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+</style></head><body>
+<h1>${escapeHtml(report.title)}</h1>
+${report.learner ? `<p>Learner: ${escapeHtml(report.learner)}</p>` : ''}
+${assignment ? `<p>Required level ${assignment.requiredLevel}, target ${assignment.targetAccuracy}% &mdash; ${report.targetMet ? 'target met' : 'target not yet met'}</p>` : ''}
+<p>Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())} &bull; ${report.sessions.length} sessions</p>
+<table><thead><tr>${PARAGRAPH_HEADER.map(h => `<th>${h}</th>`).join('')}</tr></thead><tbody>${rows}</tbody></table>
+</body></html>`;
+};
+
+export const parseReport = (json: string): RecitalReport | null => {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed?.version === 1 && Array.isArray(parsed.paragraphs) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { dueSegmentIndices, formatDueIn, recallQuality, scheduleReview, SegmentSchedule } from './scheduler';
+import { segmentKey, segmentText } from './segmentation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+/** A 60-word recital; 30 seconds is 120 words a minute. */
+const recital = (accuracy: number, duration = 30, extra: Partial<Parameters<typeof recallQuality>[0]> = {}) =>
+  ({ accuracy, missedWords: [], duration, expected: words(60), ...extra });
+
+describe('recallQuality', () => {
+  it('grades by accuracy', () => {
+    expect(recallQuality(recital(100))).toBe(5);
+    expect(recallQuality(recital(90))).toBe(4);
+    expect(recallQuality(recital(72))).toBe(3);
+    expect(recallQuality(recital(55))).toBe(2);
+    expect(recallQuality(recital(30))).toBe(1);
+    expect(recallQuality(recital(10))).toBe(0);
+  });
+
+  it('holds back full marks while any word was missed', () => {
+    expect(recallQuality(recital(96, 30, { missedWords: ['word'] }))).toBe(4);
+  });
+
+  it('drops a grade for a slow or hesitant recital', () => {
+    expect(recallQuality(recital(100, 90))).toBe(4);
+    expect(recallQuality(recital(100, 30, { fluency: { wordsPerMinute: 120, pauseCount: 1, longestPause: 3, hesitations: [{ word: 'word', pause: 3 }] } }))).toBe(4);
+  });
+
+  it('grades typed recitals on accuracy alone', () => {
+    expect(recallQuality(recital(100, 90, { inputMode: 'typing' }))).toBe(5);
+  });
+
+  it('never drops a failing grade further for pace', () => {
+    expect(recallQuality(recital(72, 90))).toBe(3);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('spaces the first good reviews a day and then six days apart', () => {
+    const first = scheduleReview(undefined, 'k', 4, 90, NOW);
+    expect(first).toMatchObject({ segmentKey: 'k', repetitions: 1, intervalDays: 1, dueAt: NOW + DAY_MS, lastAccuracy: 90 });
+    const second = scheduleReview(first, 'k', 4, 92, NOW + DAY_MS);
+    expect(second).toMatchObject({ repetitions: 2, intervalDays: 6 });
+    const third = scheduleReview(second, 'k', 4, 95, NOW + 7 * DAY_MS);
+    expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+  });
+
+  it('starts over after a failed review', () => {
+    const learned = scheduleReview(scheduleReview(undefined, 'k', 5, 100, NOW), 'k', 5, 100, NOW);
+    const failed = scheduleReview(learned, 'k', 1, 30, NOW);
+    expect(failed).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(failed.easeFactor).toBeLessThan(learned.easeFactor);
+  });
+
+  it('never lets the ease factor fall below 1.3', () => {
+    let schedule: SegmentSchedule | undefined;
+    for (let i = 0; i < 10; i++) schedule = scheduleReview(schedule, 'k', 0, 0, NOW);
+    expect(schedule?.easeFactor).toBe(1.3);
+  });
+});
+
+describe('due segments', () => {
+  const segments = segmentText('Alpha one.\n\nBeta two.\n\nGamma three.');
+  const schedule = (text: string, dueAt: number): SegmentSchedule =>
+    ({ ...scheduleReview(undefined, segmentKey(text), 4, 90, NOW), dueAt });
+
+  it('counts never-recited and overdue segments as due', () => {
+    const schedules = {
+      [segmentKey('Alpha one.')]: schedule('Alpha one.', NOW - 1),
+      [segmentKey('Beta two.')]: schedule('Beta two.', NOW + DAY_MS)
+    };
+    expect(dueSegmentIndices(schedules, segments, NOW)).toEqual([0, 2]);
+  });
+
+  it('describes when a segment is next due', () => {
+    expect(formatDueIn(undefined, NOW)).toBe('Due');
+    expect(formatDueIn(schedule('Alpha one.', NOW), NOW)).toBe('Due');
+    expect(formatDueIn(schedule('Alpha one.', NOW + DAY_MS), NOW)).toBe('Due tomorrow');
+    expect(formatDueIn(schedule('Alpha one.', NOW + 2.5 * DAY_MS), NOW)).toBe('Due in 3 days');
+  });
+});
@@ -0,0 +1,87 @@
+import { ChunkResult, TextSegment } from './types';
+import { segmentKey } from './segmentation';
+
+export interface SegmentSchedule {
+  /** The segment's segmentKey. */
+  segmentKey: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt: number;
+  lastAccuracy: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STORAGE_PREFIX = 'recallix.speak.segmentSchedule.';
+/** Schedules keyed by segment position, which meant a different paragraph under each segmentation mode. */
+const LEGACY_STORAGE_PREFIX = 'recallix.speak.schedule.';
+
+/**
+ * Maps a recital onto SM-2's 0-5 recall quality. Accuracy sets the grade;
+ * a clean but slow or stalling recital (under 60 words per minute, or any
+ * long hesitation) loses a grade because hesitant recall is not yet fluent.
+ * Typed recitals are graded on accuracy alone since typing speed says little about recall.
+ */
+export const recallQuality = (result: Pick<ChunkResult, 'accuracy' | 'missedWords' | 'duration' | 'expected' | 'fluency' | 'inputMode'>): number => {
+  const { accuracy } = result;
+  let quality = accuracy >= 95 && result.missedWords.length === 0 ? 5
+    : accuracy >= 85 ? 4
+    : accuracy >= 70 ? 3
+    : accuracy >= 50 ? 2
+    : accuracy >= 25 ? 1
+    : 0;
+  const words = result.expected.split(/\s+/).filter(w => w.length > 0).length;
+  const wordsPerMinute = result.duration > 0 ? (words / result.duration) * 60 : Infinity;
+  const hesitated = (result.fluency?.hesitations.length ?? 0) > 0;
+  if (quality >= 4 && result.inputMode !== 'typing' && (wordsPerMinute < 60 || hesitated)) quality--;
+  return quality;
+};
+
+export const scheduleReview = (previous: SegmentSchedule | undefined, key: string, quality: number, accuracy: number, now = Date.now()): SegmentSchedule => {
+  const prev = previous ?? { segmentKey: key, easeFactor: 2.5, intervalDays: 0, repetitions: 0, dueAt: now, lastReviewedAt: 0, lastAccuracy: 0 };
+  let { repetitions, intervalDays } = prev;
+  if (quality >= 3) {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * prev.easeFactor);
+    repetitions++;
+  } else {
+    repetitions = 0;
+    intervalDays = 1;
+  }
+  const easeFactor = Math.max(1.3, prev.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return { segmentKey: key, easeFactor, intervalDays, repetitions, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now, lastAccuracy: accuracy };
+};
+
+export const loadSchedules = (memorizationId: string): Record<string, SegmentSchedule> => {
+  // Positional schedules can't be matched to a segment's text, so they are dropped rather than migrated.
+  localStorage.removeItem(LEGACY_STORAGE_PREFIX + memorizationId);
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_PREFIX + memorizationId) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveSchedules = (memorizationId: string, schedules: Record<string, SegmentSchedule>) => {
+  localStorage.setItem(STORAGE_PREFIX + memorizationId, JSON.stringify(schedules));
+};
+
+export const recordSegmentReview = (memorizationId: string, result: ChunkResult, now = Date.now()): SegmentSchedule => {
+  const schedules = loadSchedules(memorizationId);
+  const key = segmentKey(result.expected);
+  const next = scheduleReview(schedules[key], key, recallQuality(result), result.accuracy, now);
+  saveSchedules(memorizationId, { ...schedules, [key]: next });
+  return next;
+};
+
+/** Segments never recited count as due, so a fresh memorization starts with everything selected. */
+export const dueSegmentIndices = (schedules: Record<string, SegmentSchedule>, segments: TextSegment[], now = Date.now()): number[] =>
+  segments.map((segment, i) => ({ schedule: schedules[segmentKey(segment.text)], i }))
+    .filter(({ schedule }) => !schedule || schedule.dueAt <= now)
+    .map(({ i }) => i);
+
+export const formatDueIn = (schedule: SegmentSchedule | undefined, now = Date.now()): string => {
+  if (!schedule || schedule.dueAt <= now) return 'Due';
+  const days = Math.ceil((schedule.dueAt - now) / DAY_MS);
+  return days === 1 ? 'Due tomorrow' : `Due in ${days} days`;
+};
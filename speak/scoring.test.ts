@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { buildReviewItems, finalAverage, scoreReview, summarizeLevels } from './scoring';
+import { ChunkResult } from './types';
+
+const words = (text: string) => text.split(' ');
+
+const review = (expected: string, spoken: string) => buildReviewItems(words(expected), spoken ? words(spoken) : []);
+
+const result = (level: number, accuracy: number, duration: number, rawAccuracy?: number): ChunkResult => ({
+  index: 0, segmentIndex: 0, expected: '', spoken: '', accuracy, rawAccuracy,
+  missedWords: [], substitutedWords: [], omittedWords: [], insertedWords: [], duration, level
+});
+
+describe('scoreReview', () => {
+  it('scores a word-perfect recital at 100', () => {
+    const scored = scoreReview(review('the cat sat down', 'the cat sat down'), 4);
+    expect(scored.accuracy).toBe(100);
+    expect(scored.rawAccuracy).toBe(100);
+    expect(scored.missedWords).toEqual([]);
+  });
+
+  it('counts omitted and substituted words as missed', () => {
+    const scored = scoreReview(review('the cat sat down', 'the dog sat'), 4);
+    expect(scored.rawAccuracy).toBe(50);
+    expect(scored.accuracy).toBe(50);
+    expect(scored.substitutedWords).toEqual(['cat']);
+    expect(scored.omittedWords).toEqual(['down']);
+    expect(scored.missedWords).toEqual(['cat', 'down']);
+  });
+
+  it('lists extra words without counting them against the score', () => {
+    const scored = scoreReview(review('the cat sat', 'the big cat sat'), 4);
+    expect(scored.accuracy).toBe(100);
+    expect(scored.insertedWords).toEqual(['big']);
+  });
+
+  it('weights a missed function word less than a content word in verbatim grading', () => {
+    const wordClasses = ['function', 'content', 'content', 'content'] as const;
+    const missedFunction = scoreReview(review('the cat sat down', 'cat sat down'), 3, { wordClasses: [...wordClasses] });
+    const missedContent = scoreReview(review('the cat sat down', 'the sat down'), 3, { wordClasses: [...wordClasses] });
+    // 3 of 3.5 weighted points, against 2.5 of 3.5.
+    expect(missedFunction.accuracy).toBe(86);
+    expect(missedContent.accuracy).toBe(71);
+    expect(missedFunction.rawAccuracy).toBe(75);
+    expect(missedContent.rawAccuracy).toBe(75);
+  });
+
+  it('ignores function words in gist grading', () => {
+    const scored = scoreReview(review('the cat sat down', 'cat sat down'), 3, { grading: 'gist', wordClasses: ['function', 'content', 'content', 'content'] });
+    expect(scored.accuracy).toBe(100);
+    expect(scored.rawAccuracy).toBe(75);
+    expect(scored.grading).toBe('gist');
+  });
+
+  it('takes the prompt penalty off both accuracies', () => {
+    const scored = scoreReview(review('the cat sat down', 'the cat sat down'), 4, { prompts: 2 });
+    expect(scored.accuracy).toBe(90);
+    expect(scored.rawAccuracy).toBe(90);
+    expect(scored.prompts).toBe(2);
+  });
+
+  it('gives part credit for a phrase recited in the wrong place', () => {
+    const scored = scoreReview(review('one two three four five six seven eight', 'four five six seven eight one two three'), 6);
+    expect(scored.reorderedWords).toEqual(['one', 'two', 'three']);
+    expect(scored.missedWords).toEqual([]);
+    expect(scored.insertedWords).toEqual([]);
+    // Five words in place and three at half credit.
+    expect(scored.accuracy).toBe(81);
+    expect(scored.rawAccuracy).toBe(63);
+  });
+});
+
+describe('summarizeLevels', () => {
+  it('averages accuracy and totals time per level', () => {
+    const summaries = summarizeLevels([result(3, 80, 10), result(3, 71, 12), result(4, 60, 20)]);
+    expect(summaries[3]).toEqual({ accuracy: 76, rawAccuracy: 76, time: 22, completed: true });
+    expect(summaries[4]).toEqual({ accuracy: 60, rawAccuracy: 60, time: 20, completed: true });
+  });
+
+  it('falls back to accuracy for results saved without a raw accuracy', () => {
+    const summaries = summarizeLevels([result(2, 90, 5, 80), result(2, 70, 5)]);
+    expect(summaries[2].accuracy).toBe(80);
+    expect(summaries[2].rawAccuracy).toBe(75);
+  });
+
+  it('keeps earlier levels and replaces ones recited again', () => {
+    const previous = summarizeLevels([result(2, 50, 5), result(3, 60, 5)]);
+    const summaries = summarizeLevels([result(3, 90, 8)], previous);
+    expect(summaries[2].accuracy).toBe(50);
+    expect(summaries[3].accuracy).toBe(90);
+  });
+});
+
+describe('finalAverage', () => {
+  it('weights every completed level equally', () => {
+    expect(finalAverage({
+      3: { accuracy: 96, time: 10, completed: true },
+      4: { accuracy: 75, time: 30, completed: true }
+    })).toBe(86);
+  });
+
+  it('leaves out levels that were not completed', () => {
+    expect(finalAverage({
+      2: { accuracy: 40, time: 10, completed: false },
+      3: { accuracy: 80, time: 10, completed: true }
+    })).toBe(80);
+  });
+
+  it('is zero with nothing completed', () => {
+    expect(finalAverage({})).toBe(0);
+  });
+});
@@ -0,0 +1,126 @@
+import { alignWords, WordStatus } from './alignment';
+import { createWordMatcher, isFullMatch, WordMatchFn } from './matching';
+import { computeFluency, gapsBefore } from './fluency';
+import { scoreLines } from './poetry';
+import { promptedAccuracy } from './prompting';
+import { findReordered, GRADING_PROFILES, GradingMode } from './grading';
+import { WordClass } from './wordClasses';
+import { estimateWordStart } from './recordings';
+import { WordTiming } from './transcription';
+import { ChunkResult, LevelSummary, TextSegment } from './types';
+
+export interface ReviewItem {
+  original: string;
+  spoken: string;
+  status: WordStatus;
+  credit: number;
+  editing: boolean;
+  /** Roughly where in the recording this word was (or should have been) spoken, in seconds. */
+  start?: number;
+  /** Silence before the spoken word, when word timings are known. */
+  pauseBefore?: number;
+}
+
+const englishMatcher = createWordMatcher();
+
+/** Adapts a graded matcher to the yes/no form alignment and validation use. */
+export const toMatchPredicate = (matchWords: WordMatchFn) => (expected: string, spoken: string): boolean => matchWords(expected, spoken).tier !== 'none';
+export const isMatch = toMatchPredicate(englishMatcher);
+
+export const scoreWord = (original: string, spoken: string, matchWords: WordMatchFn = englishMatcher): Pick<ReviewItem, 'status' | 'credit'> => {
+  if (!original) return { status: 'inserted', credit: 0 };
+  if (!spoken || spoken === "...") return { status: 'omitted', credit: 0 };
+  const match = matchWords(original, spoken);
+  if (match.tier === 'none') return { status: 'substituted', credit: 0 };
+  return { status: isFullMatch(match) ? 'correct' : 'close', credit: match.credit };
+};
+
+export const buildReviewItems = (expectedWords: string[], spokenWords: string[], duration = 0, timings?: WordTiming[], matchWords: WordMatchFn = englishMatcher): ReviewItem[] => {
+  // Omitted words have no audio of their own; point them at the word spoken just before.
+  let lastStart = 0;
+  const gaps = timings && timings.length === spokenWords.length ? gapsBefore(timings) : undefined;
+  return alignWords(expectedWords, spokenWords, toMatchPredicate(matchWords)).map(a => {
+    const original = a.expected ?? "";
+    const spoken = a.spoken ?? "...";
+    if (a.spokenIndex !== null) lastStart = estimateWordStart(a.spokenIndex, spokenWords.length, duration, timings);
+    const pauseBefore = a.spokenIndex !== null && gaps ? gaps[a.spokenIndex] : undefined;
+    return { original, spoken, ...scoreWord(original, spoken, matchWords), editing: false, start: lastStart, pauseBefore };
+  });
+};
+
+export type ScoredReview = Pick<ChunkResult,
+  'spoken' | 'accuracy' | 'rawAccuracy' | 'missedWords' | 'substitutedWords' | 'omittedWords' | 'insertedWords' | 'reorderedWords'
+  | 'closeMatch' | 'lineResults' | 'fluency' | 'prompts' | 'grading'>;
+
+export interface ScoreOptions {
+  segment?: TextSegment;
+  prompts?: number;
+  grading?: GradingMode;
+  /** Class of each expected word, from classifyWords; without them every word weighs the same. */
+  wordClasses?: WordClass[];
+  matchWords?: WordMatchFn;
+}
+
+/**
+ * Scores a reviewed recital two ways: the raw share of words recalled, and
+ * the accuracy graded by word class and grading mode, which is what the rest
+ * of the app (levels, scheduling, reports) goes by.
+ */
+export const scoreReview = (reviewItems: ReviewItem[], spokenSeconds: number, { segment, prompts = 0, grading = 'verbatim', wordClasses, matchWords = englishMatcher }: ScoreOptions = {}): ScoredReview => {
+  const profile = GRADING_PROFILES[grading];
+  const expectedItems = reviewItems.filter(item => item.status !== 'inserted');
+  // Silent recitals are stopped by validation before reaching here, but a learner can still clear every word by hand.
+  const wasSilent = expectedItems.every(item => item.spoken === "...");
+  const reordered = wasSilent ? { expected: new Set<number>(), spoken: new Set<number>() } : findReordered(reviewItems, toMatchPredicate(matchWords));
+  const expectedIndices = reviewItems.map((_, i) => i).filter(i => reviewItems[i].status !== 'inserted');
+  const earnedCredit = expectedItems.reduce((a, item) => a + item.credit, 0);
+  const graded = expectedIndices.map((i, k) => {
+    const item = reviewItems[i];
+    const credit = reordered.expected.has(i) ? profile.reorderCredit : profile.fullCloseCredit && item.status === 'close' ? 1 : item.credit;
+    return { weight: profile.weights[wordClasses?.[k] ?? 'content'], credit };
+  });
+  const totalWeight = graded.reduce((a, g) => a + g.weight, 0);
+  const rawAccuracy = Math.round((earnedCredit / Math.max(expectedItems.length, 1)) * 100);
+  const weightedAccuracy = totalWeight > 0 ? Math.round((graded.reduce((a, g) => a + g.weight * g.credit, 0) / totalWeight) * 100) : rawAccuracy;
+  const unplaced = (status: WordStatus) => wasSilent ? [] : expectedIndices.filter(i => reviewItems[i].status === status && !reordered.expected.has(i)).map(i => reviewItems[i].original);
+  const substituted = unplaced('substituted');
+  const omitted = unplaced('omitted');
+  return {
+    spoken: reviewItems.filter(i => i.spoken !== "...").map(i => i.spoken).join(' '),
+    accuracy: promptedAccuracy(weightedAccuracy, prompts),
+    rawAccuracy: promptedAccuracy(rawAccuracy, prompts),
+    missedWords: [...substituted, ...omitted],
+    substitutedWords: substituted,
+    omittedWords: omitted,
+    insertedWords: reviewItems.filter((item, i) => item.status === 'inserted' && !reordered.spoken.has(i)).map(item => item.spoken),
+    reorderedWords: reordered.expected.size > 0 ? Array.from(reordered.expected).sort((a, b) => a - b).map(i => reviewItems[i].original) : undefined,
+    closeMatch: expectedItems.some(item => item.status === 'close'),
+    lineResults: segment?.lines ? scoreLines(segment.lines, segment.firstLine ?? 0, expectedItems.map(item => item.credit)) : undefined,
+    fluency: computeFluency(
+      expectedItems.filter(item => item.status !== 'omitted').map(item => ({ word: item.original, pauseBefore: item.pauseBefore })),
+      reviewItems.filter(item => item.spoken !== "...").length,
+      spokenSeconds
+    ),
+    prompts: prompts > 0 ? prompts : undefined,
+    grading
+  };
+};
+
+/** Averages a session's results per level, on top of any levels already summarised. */
+export const summarizeLevels = (results: ChunkResult[], previous: Record<number, LevelSummary> = {}): Record<number, LevelSummary> => {
+  const summaries = { ...previous };
+  Array.from(new Set(results.map(r => r.level))).forEach(lvl => {
+    const levelResults = results.filter(r => r.level === lvl);
+    const accuracy = Math.round(levelResults.reduce((a, b) => a + b.accuracy, 0) / levelResults.length);
+    const rawAccuracy = Math.round(levelResults.reduce((a, b) => a + (b.rawAccuracy ?? b.accuracy), 0) / levelResults.length);
+    const time = levelResults.reduce((a, b) => a + b.duration, 0);
+    summaries[lvl] = { accuracy, rawAccuracy, time, completed: true };
+  });
+  return summaries;
+};
+
+/** The score reported for a session: the mean of its completed levels, each weighted equally. */
+export const finalAverage = (summaries: Record<number, LevelSummary>): number => {
+  const completed = Object.values(summaries).filter(s => s.completed);
+  return Math.round(completed.reduce((a, b) => a + b.accuracy, 0) / Math.max(completed.length, 1));
+};
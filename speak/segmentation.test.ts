@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { closingLine, formatSpeakingTime, measuredWordsPerMinute, openingLine, segmentKey, segmentText, suggestSegmentationMode } from './segmentation';
+
+const SENTENCE_END = /[.!?]["'”’)]*$/;
+
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ');
+
+describe('segmentText', () => {
+  it('names paragraphs and labels them with length and speaking time', () => {
+    const segments = segmentText('One two three.\n\nFour five.');
+    expect(segments.map(s => s.name)).toEqual(['Paragraph 1', 'Paragraph 2']);
+    expect(segments[0].title).toBe('Paragraph 1 (3 words • ~1s)');
+    expect(segments[1].text).toBe('Four five.');
+  });
+
+  it('splits a long paragraph into lettered parts at sentence boundaries', () => {
+    const text = `${words(8, 'alpha')}. ${words(8, 'beta')}. ${words(8, 'gamma')}.`;
+    const segments = segmentText(text, { mode: 'auto', maxWords: 10 });
+    expect(segments.map(s => s.name)).toEqual(['Paragraph 1 (Part A)', 'Paragraph 1 (Part B)', 'Paragraph 1 (Part C)']);
+    expect(segments[1].text).toBe(`${words(8, 'beta')}.`);
+  });
+
+  it('groups a sonnet into three quatrains and a couplet', () => {
+    const lines = Array.from({ length: 14 }, (_, i) => `Line number ${i + 1}`);
+    const segments = segmentText(lines.join('\n'), { mode: 'poem' });
+    expect(segments.map(s => s.name)).toEqual(['Lines 1-4', 'Lines 5-8', 'Lines 9-12', 'Lines 13-14']);
+    expect(segments[3].lines).toEqual(['Line number 13', 'Line number 14']);
+    expect(segments[3].firstLine).toBe(12);
+  });
+
+  it('cuts fixed-size parts in word-count mode', () => {
+    const segments = segmentText(words(25), { mode: 'words', wordsPerSegment: 10 });
+    expect(segments.map(s => s.text.split(' ').length)).toEqual([10, 10, 5]);
+    expect(segments[2].name).toBe('Part 3');
+  });
+
+  it('ends sections at marker lines and drops empty ones', () => {
+    const segments = segmentText('first\n---\n---\nsecond\nstill second', { mode: 'markers' });
+    expect(segments.map(s => s.text)).toEqual(['first', 'second\nstill second']);
+    expect(segments.map(s => s.name)).toEqual(['Section 1', 'Section 2']);
+  });
+});
+
+describe('segmentKey', () => {
+  it('ignores differences in whitespace', () => {
+    expect(segmentKey('To be,\n  or not  to be')).toBe(segmentKey('To be, or not to be'));
+  });
+
+  it('tells different texts apart', () => {
+    expect(segmentKey('To be')).not.toBe(segmentKey('Not to be'));
+  });
+
+  it('keys a segment the same under any mode that yields the same text', () => {
+    const text = 'First stanza line.\n\nSecond stanza line.';
+    const stanzas = segmentText(text, { mode: 'stanza' });
+    const paragraphs = segmentText(text, { mode: 'auto' });
+    expect(stanzas.map(s => segmentKey(s.text))).toEqual(paragraphs.map(s => segmentKey(s.text)));
+  });
+});
+
+describe('speaking time', () => {
+  it('formats seconds and minutes', () => {
+    expect(formatSpeakingTime(45)).toBe('~45s');
+    expect(formatSpeakingTime(120)).toBe('~2m');
+    expect(formatSpeakingTime(95)).toBe('~1m 35s');
+  });
+
+  it('measures pace only once there is half a minute of speech', () => {
+    expect(measuredWordsPerMinute([{ expected: words(20), duration: 10 }])).toBeNull();
+    expect(measuredWordsPerMinute([{ expected: words(40), duration: 20 }, { expected: words(20), duration: 10 }])).toBe(120);
+  });
+});
+
+describe('suggestSegmentationMode', () => {
+  it('suggests poem mode for many short lines', () => {
+    expect(suggestSegmentationMode('Shall I compare thee\nto a summer’s day\nThou art more lovely\nand more temperate')).toBe('poem');
+  });
+
+  it('keeps paragraphs for prose', () => {
+    expect(suggestSegmentationMode(`${words(30)}\n${words(30)}\n${words(30)}\n${words(30)}`)).toBe('auto');
+    expect(suggestSegmentationMode('one\ntwo')).toBe('auto');
+  });
+});
+
+describe('opening and closing lines', () => {
+  const [prose] = segmentText('It was the best of times. It was the worst of times.');
+
+  it('takes the first and last sentence of prose', () => {
+    expect(openingLine(prose, SENTENCE_END)).toBe('It was the best of times.');
+    expect(closingLine(prose, SENTENCE_END)).toBe('It was the worst of times.');
+  });
+
+  it('shortens a long opening sentence', () => {
+    const [long] = segmentText(`${words(20)}.`);
+    expect(openingLine(long, SENTENCE_END)).toBe(`${words(12)}…`);
+  });
+
+  it('uses whole lines in poetry mode', () => {
+    const [quatrain] = segmentText('one line\ntwo line\nthree line\nfour line', { mode: 'poem', poemGrouping: 'quatrain' });
+    expect(openingLine(quatrain, SENTENCE_END)).toBe('one line');
+    expect(closingLine(quatrain, SENTENCE_END)).toBe('four line');
+  });
+});
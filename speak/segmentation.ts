@@ -0,0 +1,178 @@
+import { TextSegment } from './types';
+import { groupPoemLines, PoemGrouping } from './poetry';
+
+export type SegmentationMode = 'auto' | 'poem' | 'stanza' | 'line' | 'sentence' | 'words' | 'markers';
+
+export interface SegmentationOptions {
+  mode: SegmentationMode;
+  /** 'auto' splits paragraphs longer than this at sentence boundaries. */
+  maxWords?: number;
+  /** Segment size for 'words' mode. */
+  wordsPerSegment?: number;
+  /** A line consisting only of this marker ends a segment in 'markers' mode. */
+  marker?: string;
+  /** How 'poem' mode groups lines into segments. */
+  poemGrouping?: PoemGrouping;
+  wordsPerMinute?: number;
+}
+
+export const DEFAULT_WORDS_PER_MINUTE = 130;
+
+export const SEGMENTATION_MODES: { mode: SegmentationMode; label: string }[] = [
+  { mode: 'auto', label: 'Paragraphs' },
+  { mode: 'poem', label: 'Poem' },
+  { mode: 'stanza', label: 'Stanzas' },
+  { mode: 'line', label: 'Lines' },
+  { mode: 'sentence', label: 'Sentences' },
+  { mode: 'words', label: 'Word Count' },
+  { mode: 'markers', label: 'Markers' }
+];
+
+const countWords = (text: string) => text.split(/\s+/).filter(w => w.length > 0).length;
+
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]+|\s*[^.!?]+/g) || [text]).map(s => s.trim()).filter(s => s.length > 0);
+
+export const estimateSpeakingSeconds = (wordCount: number, wordsPerMinute = DEFAULT_WORDS_PER_MINUTE) =>
+  Math.max(1, Math.round((wordCount / wordsPerMinute) * 60));
+
+export const formatSpeakingTime = (seconds: number) => {
+  if (seconds < 60) return `~${seconds}s`;
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return s === 0 ? `~${m}m` : `~${m}m ${s}s`;
+};
+
+/** Learner's pace from past recitals; null until there is at least half a minute of speech to go on. */
+export const measuredWordsPerMinute = (results: { expected: string; duration: number }[]): number | null => {
+  const timed = results.filter(r => r.duration > 0);
+  const seconds = timed.reduce((a, r) => a + r.duration, 0);
+  if (seconds < 30) return null;
+  const words = timed.reduce((a, r) => a + countWords(r.expected), 0);
+  return Math.round((words / seconds) * 60);
+};
+
+const packByWordLimit = (pieces: string[], limit: number): string[] => {
+  const packed: string[] = [];
+  let current = "";
+  let currentCount = 0;
+  pieces.forEach(piece => {
+    const count = countWords(piece);
+    if (currentCount + count > limit && currentCount > 0) {
+      packed.push(current.trim());
+      current = piece;
+      currentCount = count;
+    } else {
+      current += (current ? " " : "") + piece;
+      currentCount += count;
+    }
+  });
+  if (current) packed.push(current.trim());
+  return packed;
+};
+
+const label = (name: string, text: string, wordsPerMinute: number) => {
+  const words = countWords(text);
+  return `${name} (${words} words • ${formatSpeakingTime(estimateSpeakingSeconds(words, wordsPerMinute))})`;
+};
+
+/**
+ * Splits a memorization's text into the recall units offered on the setup
+ * screen. Pure, so the same rules apply wherever segments are needed.
+ */
+export const segmentText = (text: string, options: SegmentationOptions = { mode: 'auto' }): TextSegment[] => {
+  const { mode, maxWords = 150, wordsPerSegment = 60, marker = '---', poemGrouping = 'sonnet', wordsPerMinute = DEFAULT_WORDS_PER_MINUTE } = options;
+  const segment = (name: string, block: string): TextSegment => ({ name, title: label(name, block, wordsPerMinute), text: block });
+  const make = (kind: string) => (block: string, i: number): TextSegment => segment(`${kind} ${i + 1}`, block);
+
+  switch (mode) {
+    case 'poem': {
+      const lines = text.split(/\n/).map(l => l.trim()).filter(l => l.length > 0);
+      return groupPoemLines(lines, poemGrouping).map(group => {
+        const block = group.lines.join('\n');
+        const range = group.lines.length > 1 ? `Lines ${group.firstLine + 1}-${group.firstLine + group.lines.length}` : `Line ${group.firstLine + 1}`;
+        return { ...segment(range, block), lines: group.lines, firstLine: group.firstLine };
+      });
+    }
+    case 'stanza':
+      return text.split(/\n\s*\n/).map(b => b.trim()).filter(b => b.length > 0).map(make('Stanza'));
+    case 'line':
+      return text.split(/\n/).map(l => l.trim()).filter(l => l.length > 0).map(make('Line'));
+    case 'sentence':
+      return splitSentences(text.replace(/\s*\n\s*/g, ' ')).map(make('Sentence'));
+    case 'words': {
+      const words = text.split(/\s+/).filter(w => w.length > 0);
+      const size = Math.max(1, wordsPerSegment);
+      const blocks: string[] = [];
+      for (let i = 0; i < words.length; i += size) blocks.push(words.slice(i, i + size).join(' '));
+      return blocks.map(make('Part'));
+    }
+    case 'markers':
+      return text.split(/\n/).reduce<string[][]>((sections, line) => {
+        if (line.trim() === marker) sections.push([]);
+        else sections[sections.length - 1].push(line);
+        return sections;
+      }, [[]]).map(lines => lines.join('\n').trim()).filter(b => b.length > 0).map(make('Section'));
+    case 'auto':
+    default: {
+      const segments: TextSegment[] = [];
+      text.split(/\n+/).filter(p => p.trim().length > 0).forEach((block, bIdx) => {
+        if (countWords(block) <= maxWords) {
+          segments.push(segment(`Paragraph ${bIdx + 1}`, block));
+          return;
+        }
+        packByWordLimit(splitSentences(block), maxWords).forEach((part, pIdx) => {
+          segments.push(segment(`Paragraph ${bIdx + 1} (Part ${String.fromCharCode(65 + pIdx)})`, part));
+        });
+      });
+      return segments;
+    }
+  }
+};
+
+/**
+ * Identifies a segment by its text rather than its position, since the same
+ * index points at different text under each segmentation mode. A recital's
+ * `expected` text is its segment's text, so attempts key the same way.
+ */
+export const segmentKey = (text: string): string => {
+  // FNV-1a over the whitespace-collapsed text.
+  let hash = 0x811c9dc5;
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** Picks line-based poetry mode for texts made of many short lines, paragraphs otherwise. */
+export const suggestSegmentationMode = (text: string): SegmentationMode => {
+  const lines = text.split(/\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 4) return 'auto';
+  const avgWords = lines.reduce((a, l) => a + countWords(l), 0) / lines.length;
+  return avgWords <= 12 ? 'poem' : 'auto';
+};
+
+/** Sentences run on too long to serve as an opening cue; cut them here. */
+const MAX_OPENING_WORDS = 12;
+
+/** A segment's first line in poetry mode, otherwise its first sentence, shortened if it runs long. */
+export const openingLine = (segment: TextSegment, sentenceEnd: RegExp): string => {
+  if (segment.lines?.length) return segment.lines[0];
+  const tokens = segment.text.split(/\s+/).filter(t => t.length > 0);
+  let end = 0;
+  while (end < tokens.length - 1 && !sentenceEnd.test(tokens[end])) end++;
+  const sentence = tokens.slice(0, end + 1);
+  return sentence.length > MAX_OPENING_WORDS ? `${sentence.slice(0, MAX_OPENING_WORDS).join(' ')}…` : sentence.join(' ');
+};
+
+/** A segment's last line in poetry mode, otherwise its last sentence. */
+export const closingLine = (segment: TextSegment, sentenceEnd: RegExp): string | undefined => {
+  if (segment.lines?.length) return segment.lines[segment.lines.length - 1];
+  // sentenceEnd tests a single token, so walk back to the token that closed the sentence before.
+  const tokens = segment.text.split(/\s+/).filter(t => t.length > 0);
+  let start = tokens.length - 1;
+  while (start > 0 && !sentenceEnd.test(tokens[start - 1])) start--;
+  return tokens.length > 0 ? tokens.slice(start).join(' ') : undefined;
+};
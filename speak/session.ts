@@ -0,0 +1,51 @@
+import { PersistedSession } from './engine';
+import { SegmentationOptions } from './segmentation';
+import { InputMode } from './types';
+
+/**
+ * Everything needed to pick a recital back up after a reload or route change.
+ * In-flight audio and the correction screen are not kept: a resumed session
+ * restarts the chunk it was on.
+ */
+export interface SavedSession extends PersistedSession {
+  memorizationId: string;
+  recognitionMode: 'batch' | 'live';
+  /** Absent on sessions saved before typing mode existed. */
+  inputMode?: InputMode;
+  segmentation: SegmentationOptions;
+  savedAt: number;
+}
+
+const STORAGE_PREFIX = 'recallix.speak.session.';
+
+const isSavedSession = (value: unknown, memorizationId: string): value is SavedSession => {
+  if (typeof value !== 'object' || value === null) return false;
+  const session = value as Record<string, unknown>;
+  return session.memorizationId === memorizationId
+    && Array.isArray(session.chunks) && session.chunks.length > 0
+    && Array.isArray(session.chunkSegments) && Array.isArray(session.sessionResults)
+    && typeof session.currentChunkIdx === 'number' && session.currentChunkIdx < session.chunks.length;
+};
+
+export const loadSession = (memorizationId: string): SavedSession | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + memorizationId) || 'null');
+    return isSavedSession(stored, memorizationId) ? { ...stored, queuedChunks: stored.queuedChunks ?? [], retakeChunks: stored.retakeChunks ?? [] } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSession = (session: SavedSession) => {
+  localStorage.setItem(STORAGE_PREFIX + session.memorizationId, JSON.stringify(session));
+};
+
+export const clearSession = (memorizationId: string) => {
+  localStorage.removeItem(STORAGE_PREFIX + memorizationId);
+};
+
+/** Chunks recited so far, for the resume prompt. */
+export const sessionProgress = (session: SavedSession) => ({
+  done: session.awaitingPending ? session.chunks.length : session.currentChunkIdx,
+  total: session.chunks.length
+});
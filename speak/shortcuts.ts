@@ -0,0 +1,36 @@
+export type ShortcutAction = 'record' | 'finish' | 'retake' | 'prompt' | 'nextEdit';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  key: string;
+  /** As shown to the user and given to aria-keyshortcuts. */
+  label: string;
+  description: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'record', key: ' ', label: 'Space', description: 'Record, pause or resume' },
+  { action: 'finish', key: 'Enter', label: 'Enter', description: 'Finish the recital, or accept the corrections' },
+  { action: 'retake', key: 'r', label: 'R', description: 'Start the paragraph over' },
+  { action: 'prompt', key: 'p', label: 'P', description: 'Hear a prompt' },
+  { action: 'nextEdit', key: 'e', label: 'E', description: 'Correct the next wrong word' }
+];
+
+export const shortcutLabel = (action: ShortcutAction) => SHORTCUTS.find(s => s.action === action)!.label;
+
+const isEditable = (el: HTMLElement) => el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+
+/**
+ * The shortcut a key press stands for, if any. Keys typed into fields are
+ * left alone, and Space and Enter on a focused button or link keep their
+ * native meaning of pressing it.
+ */
+export const shortcutFor = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return null;
+  const target = event.target instanceof HTMLElement ? event.target : null;
+  if (target && isEditable(target)) return null;
+  const shortcut = SHORTCUTS.find(s => s.key === event.key.toLowerCase() || s.key === event.key);
+  if (!shortcut) return null;
+  if ((shortcut.key === ' ' || shortcut.key === 'Enter') && target?.closest('button, a, [role="checkbox"]')) return null;
+  return shortcut.action;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { segmentKey, segmentText } from './segmentation';
+import { combinedAccuracy, resolveSegmentKeys, scoreOrdering, shuffleSegments, TransitionResult } from './structure';
+
+const transition = (accuracy: number): TransitionResult => ({ segmentKey: 'k', expected: '', spoken: '', accuracy });
+
+/** Steps through the given values, so a shuffle can be made to come out a known way. */
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe('shuffleSegments', () => {
+  it('never hands back the text order', () => {
+    // 0.99 keeps every element in place, so the first shuffle is the original order and has to be redone.
+    const shuffled = shuffleSegments([0, 1, 2], sequence(0.99, 0.99, 0));
+    expect(shuffled).not.toEqual([0, 1, 2]);
+    expect([...shuffled].sort()).toEqual([0, 1, 2]);
+  });
+
+  it('leaves fewer than two segments alone', () => {
+    expect(shuffleSegments([4])).toEqual([4]);
+    expect(shuffleSegments([])).toEqual([]);
+  });
+});
+
+describe('scoreOrdering', () => {
+  it('scores the right order in full', () => {
+    expect(scoreOrdering([0, 1, 2, 3])).toEqual({ orderAccuracy: 100, misplaced: [] });
+  });
+
+  it('costs one segment when a single paragraph is dropped in the wrong place', () => {
+    expect(scoreOrdering([1, 2, 3, 0])).toEqual({ orderAccuracy: 75, misplaced: [0] });
+  });
+
+  it('keeps the longest run in order even when it is not adjacent', () => {
+    const { orderAccuracy, misplaced } = scoreOrdering([3, 0, 4, 1, 2]);
+    expect(orderAccuracy).toBe(60);
+    expect(misplaced).toEqual([3, 4]);
+  });
+
+  it('works on sparse selections of segments', () => {
+    expect(scoreOrdering([7, 2, 9])).toEqual({ orderAccuracy: 67, misplaced: [7] });
+  });
+});
+
+describe('combinedAccuracy', () => {
+  it('weights ordering and the transitions equally', () => {
+    expect(combinedAccuracy(80, [transition(100), transition(60)])).toBe(80);
+    expect(combinedAccuracy(100, [transition(50)])).toBe(75);
+  });
+
+  it('is the ordering score alone with no transitions', () => {
+    expect(combinedAccuracy(67, [])).toBe(67);
+  });
+});
+
+describe('resolveSegmentKeys', () => {
+  it('finds saved paragraphs by text under a different segmentation', () => {
+    const text = 'Alpha one.\n\nBeta two.\n\nGamma three.';
+    const keys = ['Gamma three.', 'Alpha one.'].map(segmentKey);
+    const lines = segmentText(`Preface.\n${text}`, { mode: 'line' });
+    expect(resolveSegmentKeys(keys, lines)).toEqual([3, 1]);
+  });
+
+  it('drops keys for paragraphs no longer in the text', () => {
+    const segments = segmentText('Alpha one.\n\nBeta two.');
+    expect(resolveSegmentKeys([segmentKey('Beta two.'), segmentKey('Removed.')], segments)).toEqual([1]);
+  });
+});
@@ -0,0 +1,97 @@
+import { openSpeakDb, promisify, STRUCTURE } from './history';
+import { segmentKey } from './segmentation';
+import { TextSegment } from './types';
+
+export interface TransitionResult {
+  /** segmentKey of the segment whose opening line was asked for. */
+  segmentKey: string;
+  expected: string;
+  spoken: string;
+  accuracy: number;
+}
+
+export interface StructureAttempt {
+  id?: number;
+  memorizationId: string;
+  recordedAt: number;
+  /** segmentKeys in text order, as drilled; positions would name other paragraphs under another segmentation. */
+  segments: string[];
+  /** segmentKeys in the order the learner put them. */
+  answer: string[];
+  orderAccuracy: number;
+  /** segmentKeys of the segments that had to move to put the answer right. */
+  misplaced: string[];
+  transitions: TransitionResult[];
+  /** Ordering and transitions, weighted equally. */
+  accuracy: number;
+}
+
+/** Shuffles a copy, reshuffling rather than ever handing back the text's own order. */
+export const shuffleSegments = (segments: number[], random = Math.random): number[] => {
+  if (segments.length < 2) return [...segments];
+  let shuffled = [...segments];
+  while (shuffled.every((s, i) => s === segments[i])) {
+    shuffled = [...segments];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+  }
+  return shuffled;
+};
+
+/**
+ * Scores an ordering by its longest run of segments already in the right
+ * relative order (not necessarily adjacent). Everything outside that run had
+ * to move, so one paragraph dropped in the wrong place costs one segment
+ * rather than shifting every position after it.
+ */
+export const scoreOrdering = (answer: number[]): { orderAccuracy: number; misplaced: number[] } => {
+  if (answer.length === 0) return { orderAccuracy: 100, misplaced: [] };
+  // Patience-sorting LIS, keeping predecessors to recover which segments are in the run.
+  const tails: number[] = [];
+  const previous = new Array<number>(answer.length).fill(-1);
+  answer.forEach((segment, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (answer[tails[mid]] < segment) lo = mid + 1; else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  });
+  const inRun = new Set<number>();
+  for (let k = tails[tails.length - 1]; k !== -1; k = previous[k]) inRun.add(answer[k]);
+  return {
+    orderAccuracy: Math.round((inRun.size / answer.length) * 100),
+    misplaced: answer.filter(segment => !inRun.has(segment)).sort((a, b) => a - b)
+  };
+};
+
+export const combinedAccuracy = (orderAccuracy: number, transitions: TransitionResult[]) => {
+  if (transitions.length === 0) return orderAccuracy;
+  const transitionAccuracy = transitions.reduce((a, t) => a + t.accuracy, 0) / transitions.length;
+  return Math.round((orderAccuracy + transitionAccuracy) / 2);
+};
+
+/** Positions in the current segments of the keys still found there, in the keys' order. */
+export const resolveSegmentKeys = (keys: string[], segments: TextSegment[]): number[] => {
+  const indexByKey = new Map(segments.map((segment, i) => [segmentKey(segment.text), i]));
+  return keys.map(key => indexByKey.get(key)).filter((i): i is number => i !== undefined);
+};
+
+export const saveStructureAttempt = async (attempt: Omit<StructureAttempt, 'id'>): Promise<StructureAttempt> => {
+  const db = await openSpeakDb();
+  const id = await promisify(db.transaction(STRUCTURE, 'readwrite').objectStore(STRUCTURE).add(attempt));
+  return { ...attempt, id: id as number };
+};
+
+export const loadStructureAttempts = async (memorizationId: string): Promise<StructureAttempt[]> => {
+  const db = await openSpeakDb();
+  const attempts = await promisify(db.transaction(STRUCTURE).objectStore(STRUCTURE).index('memorizationId').getAll(memorizationId));
+  // Attempts saved with segment positions can't be matched to a paragraph's text, so they are left out.
+  return (attempts as StructureAttempt[])
+    .filter(a => a.segments.every(s => typeof s === 'string'))
+    .sort((a, b) => a.recordedAt - b.recordedAt);
+};
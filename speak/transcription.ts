@@ -0,0 +1,128 @@
+import { GoogleGenAI } from '@google/genai';
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  mimeType: string;
+  /** The chunk the learner is reciting; providers may use it as a prompt hint but must not echo it. */
+  expectedText: string;
+  /** ISO 639-1 code of the recital's language. */
+  language?: string;
+}
+
+export interface WordTiming {
+  text: string;
+  /** Seconds from the start of the recording. */
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  /** Per-word timestamps, when the provider can produce them. */
+  words?: WordTiming[];
+}
+
+export interface TranscriptionProvider {
+  id: string;
+  transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResult>;
+}
+
+export type TranscriptionConfig =
+  | { provider: 'gemini'; apiKey?: string; model?: string }
+  | { provider: 'whisper'; endpoint: string; model?: string; apiKey?: string }
+  | { provider: 'mock'; transcript?: string | ((expectedText: string) => string); delayMs?: number };
+
+/** Gemini with the build's API_KEY, which is what every install had before providers were pluggable. */
+export const DEFAULT_TRANSCRIPTION_CONFIG: TranscriptionConfig = { provider: 'gemini' };
+const CONFIG_KEY = 'recallix.speak.transcription';
+
+const TRANSCRIPTION_PROMPT = "TRANSCRIPTION MODE: You are a Zero-Error Literal Transducer. Output ONLY the literal spoken words. If you hear silence, static, background noise, or no clear speech, return an empty string. NO punctuation, NO capitalization.";
+
+const languagePrompt = (language?: string) => !language || language === 'en' ? "" :
+  ` The speaker is reciting in the language with ISO 639-1 code "${language}". Write the words in that language's own script and keep its accents; do not translate.`;
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY, model = 'gemini-3-flash-preview'): TranscriptionProvider => ({
+  id: 'gemini',
+  transcribe: async ({ audio, mimeType, language }) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const base64Audio = await blobToBase64(audio);
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: base64Audio } },
+          { text: TRANSCRIPTION_PROMPT + languagePrompt(language) }
+        ]
+      }]
+    });
+    return { text: (response.text || "").trim() };
+  }
+});
+
+/** Talks to any server exposing the OpenAI-style `/v1/audio/transcriptions` route (whisper.cpp, faster-whisper, LocalAI). */
+export const createWhisperProvider = (endpoint: string, model = 'whisper-1', apiKey?: string): TranscriptionProvider => ({
+  id: 'whisper',
+  transcribe: async ({ audio, mimeType, language }) => {
+    const form = new FormData();
+    form.append('file', audio, `recital.${mimeType.split('/')[1] || 'webm'}`);
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    if (language) form.append('language', language);
+    const res = await fetch(`${endpoint.replace(/\/$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      body: form
+    });
+    if (!res.ok) throw new Error(`Whisper endpoint responded ${res.status}`);
+    const json = await res.json();
+    const words: WordTiming[] | undefined = Array.isArray(json.words)
+      ? json.words.map((w: { word: string; start: number; end: number }) => ({ text: w.word.trim(), start: w.start, end: w.end }))
+      : undefined;
+    return { text: (json.text || "").trim(), words };
+  }
+});
+
+/** Deterministic provider for tests and demos: echoes the expected text unless told otherwise. */
+export const createMockProvider = (transcript?: string | ((expectedText: string) => string), delayMs = 0): TranscriptionProvider => ({
+  id: 'mock',
+  transcribe: async ({ expectedText }) => {
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    const text = typeof transcript === 'function' ? transcript(expectedText) : (transcript ?? expectedText);
+    return { text: text.trim() };
+  }
+});
+
+export const createTranscriptionProvider = (config?: TranscriptionConfig): TranscriptionProvider => {
+  switch (config?.provider) {
+    case 'whisper': return createWhisperProvider(config.endpoint, config.model, config.apiKey);
+    case 'mock': return createMockProvider(config.transcript, config.delayMs);
+    case 'gemini': return createGeminiProvider(config.apiKey, config.model);
+    default: return createGeminiProvider();
+  }
+};
+
+/** A mock config with a transcript function can't round-trip through JSON, so only plain configs are stored. */
+export const loadTranscriptionConfig = (): TranscriptionConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null');
+    return stored && typeof stored.provider === 'string' ? stored : DEFAULT_TRANSCRIPTION_CONFIG;
+  } catch {
+    return DEFAULT_TRANSCRIPTION_CONFIG;
+  }
+};
+
+export const saveTranscriptionConfig = (config: TranscriptionConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
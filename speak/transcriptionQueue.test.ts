@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createQueueRunner, PendingTranscription, retryDelay } from './transcriptionQueue';
+import { TranscriptionProvider } from './transcription';
+
+// The queue's IndexedDB store, kept in a map so the runner can be driven without a browser.
+const store = vi.hoisted(() => new Map<number, PendingTranscription>());
+
+vi.mock('./history', () => ({
+  PENDING: 'pendingTranscriptions',
+  promisify: <T>(value: T) => Promise.resolve(value),
+  openSpeakDb: async () => ({
+    transaction: () => ({
+      objectStore: () => ({
+        index: () => ({ getAll: (memorizationId: string) => Array.from(store.values()).filter(item => item.memorizationId === memorizationId) }),
+        put: (item: PendingTranscription) => store.set(item.id as number, item),
+        delete: (id: number) => store.delete(id)
+      })
+    })
+  })
+}));
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const queued = (id: number, extra: Partial<PendingTranscription> = {}): PendingTranscription => ({
+  id, memorizationId: 'm1', sessionId: 's1', chunkIndex: id, segmentIndex: id, expected: `chunk ${id}`, level: 3,
+  audio: new Blob(), mimeType: 'audio/webm', duration: 5, createdAt: NOW + id, attempts: 0, nextAttemptAt: 0, ...extra
+});
+
+const provider = (transcribe: TranscriptionProvider['transcribe']): TranscriptionProvider => ({ id: 'test', transcribe });
+
+describe('retryDelay', () => {
+  it('doubles with each failed attempt', () => {
+    expect(retryDelay(0)).toBe(5000);
+    expect(retryDelay(1)).toBe(10000);
+    expect(retryDelay(3)).toBe(40000);
+  });
+
+  it('caps the wait at five minutes', () => {
+    expect(retryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('createQueueRunner', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('window', { setInterval: () => 0, clearInterval: () => {}, addEventListener: () => {}, removeEventListener: () => {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('transcribes queued recordings in order and removes them', async () => {
+    store.set(2, queued(2));
+    store.set(1, queued(1));
+    const onTranscribed = vi.fn();
+    const runner = createQueueRunner(provider(async ({ expectedText }) => ({ text: expectedText })), { memorizationId: 'm1', onTranscribed });
+    await vi.waitFor(() => expect(onTranscribed).toHaveBeenCalledTimes(2));
+    runner.stop();
+    expect(onTranscribed.mock.calls.map(([item, result]) => [item.id, result.text])).toEqual([[1, 'chunk 1'], [2, 'chunk 2']]);
+    expect(store.size).toBe(0);
+  });
+
+  it('keeps a failed recording and backs off before trying it again', async () => {
+    store.set(1, queued(1));
+    const onChange = vi.fn();
+    const started = Date.now();
+    const runner = createQueueRunner(provider(async () => { throw new Error('offline'); }), { memorizationId: 'm1', onTranscribed: vi.fn(), onChange });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+    runner.stop();
+    const failed = store.get(1);
+    expect(failed).toMatchObject({ attempts: 1, lastError: 'offline' });
+    expect(failed?.nextAttemptAt).toBeGreaterThanOrEqual(started + retryDelay(1));
+    expect(failed?.nextAttemptAt).toBeLessThanOrEqual(Date.now() + retryDelay(1));
+  });
+
+  it('waits out the backoff unless a retry is forced', async () => {
+    store.set(1, queued(1, { attempts: 1, nextAttemptAt: Date.now() + 60000 }));
+    const transcribe = vi.fn(async () => ({ text: 'chunk 1' }));
+    const onTranscribed = vi.fn();
+    const onChange = vi.fn();
+    const runner = createQueueRunner(provider(transcribe), { memorizationId: 'm1', onTranscribed, onChange });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+    expect(transcribe).not.toHaveBeenCalled();
+
+    runner.kick(true);
+    await vi.waitFor(() => expect(onTranscribed).toHaveBeenCalledTimes(1));
+    runner.stop();
+    expect(store.size).toBe(0);
+  });
+
+  it('leaves recordings queued for other texts alone', async () => {
+    store.set(1, queued(1, { memorizationId: 'other' }));
+    const onTranscribed = vi.fn();
+    const onChange = vi.fn();
+    const runner = createQueueRunner(provider(async ({ expectedText }) => ({ text: expectedText })), { memorizationId: 'm1', onTranscribed, onChange });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+    runner.stop();
+    expect(onChange).toHaveBeenLastCalledWith([]);
+    expect(onTranscribed).not.toHaveBeenCalled();
+    expect(store.has(1)).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { openSpeakDb, PENDING, promisify } from './history';
+import { TranscriptionProvider, TranscriptionResult } from './transcription';
+
+export interface PendingTranscription {
+  id?: number;
+  memorizationId: string;
+  sessionId: string;
+  chunkIndex: number;
+  segmentIndex: number;
+  expected: string;
+  level: number;
+  audio: Blob;
+  mimeType: string;
+  language?: string;
+  /** Active speaking time of the recording, in seconds. */
+  duration: number;
+  prompts?: number;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const POLL_MS = 5000;
+
+export const retryDelay = (attempts: number) => Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempts);
+
+export const enqueueTranscription = async (item: Omit<PendingTranscription, 'id' | 'attempts' | 'nextAttemptAt' | 'createdAt'>): Promise<PendingTranscription> => {
+  // The first upload has just failed, so wait one backoff step before trying again.
+  const pending: PendingTranscription = { ...item, createdAt: Date.now(), attempts: 0, nextAttemptAt: Date.now() + retryDelay(0) };
+  const db = await openSpeakDb();
+  const id = await promisify(db.transaction(PENDING, 'readwrite').objectStore(PENDING).add(pending));
+  return { ...pending, id: id as number };
+};
+
+export const listPending = async (memorizationId: string): Promise<PendingTranscription[]> => {
+  const db = await openSpeakDb();
+  const items = await promisify(db.transaction(PENDING).objectStore(PENDING).index('memorizationId').getAll(memorizationId));
+  return (items as PendingTranscription[]).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const removePending = async (id: number) => {
+  const db = await openSpeakDb();
+  await promisify(db.transaction(PENDING, 'readwrite').objectStore(PENDING).delete(id));
+};
+
+/** Drops an abandoned session's queued recordings so they are never scored. */
+export const discardPending = async (memorizationId: string, sessionId: string) => {
+  const items = await listPending(memorizationId);
+  await Promise.all(items.filter(item => item.sessionId === sessionId && item.id !== undefined).map(item => removePending(item.id as number)));
+};
+
+const putPending = async (item: PendingTranscription) => {
+  const db = await openSpeakDb();
+  await promisify(db.transaction(PENDING, 'readwrite').objectStore(PENDING).put(item));
+};
+
+export interface QueueRunnerOptions {
+  memorizationId: string;
+  onTranscribed: (item: PendingTranscription, result: TranscriptionResult) => void;
+  onChange?: (pending: PendingTranscription[]) => void;
+}
+
+/**
+ * Works through a memorization's queued recordings one at a time, backing off
+ * exponentially after each failure. It wakes on a timer and whenever the
+ * browser reports it is back online, and picks up items left by earlier page
+ * loads because the queue lives in IndexedDB.
+ */
+export const createQueueRunner = (provider: TranscriptionProvider, { memorizationId, onTranscribed, onChange }: QueueRunnerOptions) => {
+  let stopped = false;
+  let running = false;
+
+  /** `force` skips the backoff wait, for coming back online or an explicit retry. */
+  const tick = async (force = false) => {
+    if (stopped || running) return;
+    running = true;
+    try {
+      const pending = await listPending(memorizationId);
+      onChange?.(pending);
+      if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+      for (const item of pending) {
+        if (stopped) return;
+        if ((!force && item.nextAttemptAt > Date.now()) || item.id === undefined) continue;
+        try {
+          const result = await provider.transcribe({ audio: item.audio, mimeType: item.mimeType, expectedText: item.expected, language: item.language });
+          await removePending(item.id);
+          if (!stopped) onTranscribed(item, result);
+        } catch (error) {
+          const attempts = item.attempts + 1;
+          await putPending({ ...item, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      onChange?.(await listPending(memorizationId));
+    } catch (error) {
+      console.error("Transcription queue error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const onOnline = () => { tick(true); };
+  const interval = window.setInterval(() => tick(), POLL_MS);
+  window.addEventListener('online', onOnline);
+  tick();
+
+  return {
+    /** Runs a pass now; forced passes retry items that are still backing off. */
+    kick: (force = false) => { tick(force); },
+    stop: () => {
+      stopped = true;
+      window.clearInterval(interval);
+      window.removeEventListener('online', onOnline);
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { LineResult } from './poetry';
+import { FluencyMetrics } from './fluency';
+import { GradingMode } from './grading';
+
+export type InputMode = 'speech' | 'typing';
+
+export interface TextSegment {
+  /** Short name, e.g. "Paragraph 2 (Part A)" or "Lines 5-8". */
+  name: string;
+  /** The name with the segment's length and speaking time, for the setup screen. */
+  title: string;
+  text: string;
+  /** Set in poetry mode: the segment's lines and where they start in the poem. */
+  lines?: string[];
+  firstLine?: number;
+}
+
+export interface ChunkResult {
+  index: number;
+  /** Position of the chunk's segment on the setup screen; it only means the same text under the same segmentation, so anything kept across sessions goes by segmentKey(expected). */
+  segmentIndex: number;
+  expected: string;
+  spoken: string;
+  /** Graded by word class under the memorization's grading mode. */
+  accuracy: number;
+  /** Share of words recalled, every word counting the same; missing on results saved before grading. */
+  rawAccuracy?: number;
+  missedWords: string[];
+  substitutedWords: string[];
+  omittedWords: string[];
+  insertedWords: string[];
+  /** Words recited intact but in the wrong place; not counted among the missed words. */
+  reorderedWords?: string[];
+  closeMatch?: boolean;
+  duration: number;
+  level: number;
+  lineResults?: LineResult[];
+  fluency?: FluencyMetrics;
+  /** Key of the chunk's audio in speak/recordings, when it was kept. */
+  recordingKey?: string;
+  /** How the chunk was recited; results saved before typing existed are spoken. */
+  inputMode?: InputMode;
+  /** Spoken prompts the learner was fed; each one is taken off the accuracy. */
+  prompts?: number;
+  grading?: GradingMode;
+}
+
+export interface LevelSummary {
+    accuracy: number;
+    rawAccuracy?: number;
+    time: number;
+    completed: boolean;
+}
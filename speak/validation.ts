@@ -0,0 +1,78 @@
+import { RecordingAnalysis } from './audioAnalysis';
+import { alignWords, WordMatcher } from './alignment';
+import { isFunctionWord } from './wordClasses';
+
+export type RecitalFailureReason = 'silent' | 'too-short' | 'off-topic' | 'provider-error';
+
+export interface RecitalFailure {
+  ok: false;
+  reason: RecitalFailureReason;
+  detail?: string;
+}
+
+export type RecordingCheck = { ok: true } | RecitalFailure;
+export type TranscriptCheck = { ok: true; words: string[]; plausibility: number } | RecitalFailure;
+
+export const FAILURE_MESSAGES: Record<RecitalFailureReason, { title: string; message: string }> = {
+  silent: { title: "Nothing heard", message: "We couldn't hear any speech. Check your mic isn't muted and try again a little closer." },
+  'too-short': { title: "Recording too short", message: "That was much shorter than this paragraph. Try reciting the whole passage." },
+  'off-topic': { title: "Different text", message: "That didn't sound like this paragraph. Make sure you're reciting the selected section." },
+  'provider-error': { title: "Transcription unavailable", message: "The transcription service could not be reached. Check your connection and try again." }
+};
+
+/** Wording for typed recitals where the spoken messages don't fit. */
+export const TYPED_FAILURE_MESSAGES: Partial<Record<RecitalFailureReason, { title: string; message: string }>> = {
+  silent: { title: "Nothing to check", message: "Type the paragraph from memory, then check it." },
+  'off-topic': { title: "Different text", message: "That doesn't look like this paragraph. Make sure you're typing the selected section." }
+};
+
+/** Below this RMS peak the mic picked up nothing but hiss. */
+const SILENT_PEAK = 0.02;
+const MIN_SPEECH_SECONDS = 0.4;
+/** Nobody recites faster than this; less speech than it implies means the recital was cut short. */
+const MAX_WORDS_PER_SECOND = 5;
+const MIN_PLAUSIBILITY = 0.25;
+
+/** Checks the recording itself, before anything is uploaded. */
+export const checkRecording = (analysis: RecordingAnalysis, expectedWordCount: number): RecordingCheck => {
+  if (analysis.peak < SILENT_PEAK || analysis.speechSeconds < MIN_SPEECH_SECONDS) {
+    return { ok: false, reason: 'silent' };
+  }
+  // Only judge length on passages long enough that a partial recital is obviously partial.
+  if (expectedWordCount >= 10 && analysis.speechSeconds < (expectedWordCount * 0.5) / MAX_WORDS_PER_SECOND) {
+    return { ok: false, reason: 'too-short', detail: `${analysis.speechSeconds.toFixed(1)}s of speech for ${expectedWordCount} words` };
+  }
+  return { ok: true };
+};
+
+// Whole-response shapes providers use to describe audio instead of transcribing it.
+const META_RESPONSES = [
+  /^[[(].*[\])]$/,
+  /^(the )?(audio|recording|clip)( file)? (is|was|contains|appears|seems|has)\b/i,
+  /^(there is |there's )?(no|nothing)( clear)? (speech|spoken words|audible speech|words)\b/i,
+  /^(silence|inaudible|unintelligible|background noise|empty string|no transcription)\.?$/i
+];
+
+export const isMetaResponse = (text: string) => META_RESPONSES.some(p => p.test(text.trim()));
+
+/**
+ * Scores how plausibly the transcript is an attempt at the expected text:
+ * the share of transcript words that align to an expected word. Grammar
+ * words alone ("the", "and") never make a transcript plausible.
+ */
+export const checkTranscript = (rawText: string, expectedWords: string[], matches: WordMatcher): TranscriptCheck => {
+  const text = rawText.trim();
+  if (!text || isMetaResponse(text)) return { ok: false, reason: 'silent' };
+
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+  const aligned = alignWords(expectedWords, words, matches);
+  const hits = aligned.filter(a => a.status === 'correct');
+  const plausibility = hits.length / words.length;
+  const hasContentWords = expectedWords.some(w => !isFunctionWord(w));
+  const contentHits = hits.filter(a => a.expected && !isFunctionWord(a.expected)).length;
+
+  if (plausibility < MIN_PLAUSIBILITY || (hasContentWords && contentHits === 0)) {
+    return { ok: false, reason: 'off-topic', detail: `${Math.round(plausibility * 100)}% of words matched` };
+  }
+  return { ok: true, words, plausibility };
+};
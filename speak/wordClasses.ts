@@ -0,0 +1,60 @@
+import { normalize } from './matching';
+
+/** Articles, pronouns, prepositions, conjunctions and auxiliaries: words that carry grammar rather than content. */
+export const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'so', 'yet', 'if', 'then', 'than', 'as', 'because', 'while', 'though',
+  'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'about', 'into', 'onto', 'upon', 'over', 'under', 'up', 'down', 'out', 'off',
+  'i', 'me', 'my', 'mine', 'we', 'us', 'our', 'you', 'your', 'he', 'him', 'his', 'she', 'her', 'it', 'its', 'they', 'them', 'their',
+  'thou', 'thee', 'thy', 'thine', 'this', 'that', 'these', 'those', 'who', 'whom', 'whose', 'which', 'what',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'being', 'do', 'does', 'did', 'have', 'has', 'had',
+  'will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must', 'art', 'dost', 'doth', 'hath',
+  'not', 'no', 'all', 'some', 'any', 'each', 'every', 'there', 'here', 'when', 'where', 'how', 'why'
+]);
+
+export const isFunctionWord = (word: string) => FUNCTION_WORDS.has(normalize(word));
+
+export type WordClass = 'function' | 'content' | 'key';
+
+const NUMBER_WORDS = new Set([
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty', 'thirty', 'forty',
+  'fifty', 'sixty', 'seventy', 'eighty', 'ninety', 'hundred', 'thousand', 'million', 'billion',
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'
+]);
+
+export const isNumberWord = (word: string) => /\p{N}/u.test(word) || NUMBER_WORDS.has(normalize(word));
+
+const isCapitalized = (word: string) => {
+  const first = word.match(/[\p{L}]/u)?.[0];
+  return !!first && first !== first.toLocaleLowerCase() && first === first.toLocaleUpperCase();
+};
+
+/** Marks each token of the text that starts a line or sentence, where a capital says nothing about the word. */
+const sentenceStarts = (text: string, sentenceEnd: RegExp) => text.split('\n').flatMap(line => {
+  const tokens = line.split(/\s+/).filter(t => t.length > 0);
+  return tokens.map((token, k) => ({ word: normalize(token), initial: k === 0 || sentenceEnd.test(tokens[k - 1]) }));
+});
+
+/** How far ahead to look for a word's place in the raw text before giving up on it. */
+const LOOKAHEAD = 3;
+
+/**
+ * Classifies the expected words of a text. Numbers and capitalised words
+ * mid-sentence (names, terms) are key words; the English function-word list
+ * only applies when the text is English.
+ */
+export const classifyWords = (words: string[], text: string, sentenceEnd: RegExp, english: boolean): WordClass[] => {
+  const raw = sentenceStarts(text, sentenceEnd);
+  let cursor = 0;
+  return words.map(word => {
+    const target = normalize(word);
+    let initial = true;
+    for (let q = cursor; q < Math.min(raw.length, cursor + LOOKAHEAD); q++) {
+      if (raw[q].word === target) { initial = raw[q].initial; cursor = q + 1; break; }
+    }
+    if (isNumberWord(word)) return 'key';
+    if (english && isFunctionWord(word)) return 'function';
+    if (!initial && isCapitalized(word)) return 'key';
+    return 'content';
+  });
+};